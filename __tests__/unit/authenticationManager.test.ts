@@ -1,11 +1,13 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   AuthenticationManager,
   type AuthenticationOptions,
+  defaultRefreshMargin,
 } from '../../src/authenticationManager.js';
 import * as openidClient from 'openid-client';
 import * as jwtDecodeModule from 'jwt-decode';
 import * as grpc from '@grpc/grpc-js';
+import { AthenaAbortError, AthenaAuthError } from '../../src/errors.js';
 
 vi.mock('openid-client');
 vi.mock('jwt-decode');
@@ -121,4 +123,243 @@ describe('AuthenticationManager', () => {
     await manager.getAuthenticationHeader();
     expect(openidClient.discovery).toHaveBeenCalledTimes(1);
   });
+
+  it('should report each newly acquired token with its expiry', async () => {
+    const onTokenRefreshed = vi.fn();
+    manager = new AuthenticationManager(options, onTokenRefreshed);
+
+    await manager.getAuthenticationHeader();
+    await manager.getAuthenticationHeader();
+
+    expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+    expect(onTokenRefreshed).toHaveBeenCalledWith(
+      new Date(mockDecoded.exp * 1000),
+    );
+  });
+
+  it('should not write to the console by default', async () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await manager.getAuthenticationHeader();
+
+    expect(info).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+    info.mockRestore();
+    log.mockRestore();
+  });
+
+  it('should log to the configured logger without secrets or tokens', async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    manager = new AuthenticationManager({ ...options, logger });
+
+    await manager.getAuthenticationHeader();
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Discovering OIDC server metadata',
+      expect.objectContaining({ issuerUrl: options.issuerUrl }),
+    );
+    const logged = JSON.stringify(
+      Object.values(logger).flatMap((method) => method.mock.calls),
+    );
+    expect(logged).not.toContain(options.clientSecret);
+    expect(logged).not.toContain(mockToken.access_token);
+    expect(logged).not.toContain(mockToken.refresh_token);
+  });
+
+  it('should warn when refreshing the token fails', async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    manager = new AuthenticationManager({ ...options, logger });
+    (jwtDecodeModule.jwtDecode as any).mockReturnValueOnce({
+      exp: Math.floor(Date.now() / 1000) - 10,
+    });
+    await manager.getAuthenticationHeader();
+    (openidClient.refreshTokenGrant as any).mockRejectedValue(
+      new Error('invalid_grant'),
+    );
+
+    await manager.getAuthenticationHeader();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Refreshing the access token failed, requesting a new one',
+      { error: 'invalid_grant' },
+    );
+  });
+
+  it('should reject with an abort error when the signal fires', async () => {
+    (openidClient.discovery as any).mockReturnValue(new Promise(() => {}));
+    const controller = new AbortController();
+
+    const header = manager.getAuthenticationHeader(controller.signal);
+    controller.abort();
+
+    await expect(header).rejects.toBeInstanceOf(AthenaAbortError);
+  });
+
+  it('should report the cached discovery and token state', async () => {
+    expect(manager.discovered).toBe(false);
+    expect(manager.hasToken).toBe(false);
+    expect(manager.tokenExpiresAt).toBeUndefined();
+
+    await manager.getAuthenticationHeader();
+
+    expect(manager.discovered).toBe(true);
+    expect(manager.hasToken).toBe(true);
+    expect(manager.tokenExpiresAt).toEqual(new Date(mockDecoded.exp * 1000));
+  });
+
+  it('should rediscover the OIDC configuration on demand', async () => {
+    await manager.getAuthenticationHeader();
+    await manager.rediscover();
+
+    expect(openidClient.discovery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wrap rediscovery failures in an auth error', async () => {
+    (openidClient.discovery as any).mockRejectedValue(
+      new TypeError('fetch failed'),
+    );
+
+    const err = await manager.rediscover().catch((e) => e);
+
+    expect(err).toBeInstanceOf(AthenaAuthError);
+    expect(err.retryable).toBe(true);
+  });
+
+  describe('proactive refresh', () => {
+    afterEach(() => {
+      manager.stop();
+      vi.useRealTimers();
+    });
+
+    it('should refresh within the refresh margin of expiry', async () => {
+      vi.useFakeTimers({ now: (mockDecoded.exp - 3600) * 1000 });
+      await manager.getAuthenticationHeader();
+
+      vi.advanceTimersByTime(3600000 - defaultRefreshMargin - 1000);
+      await manager.getAuthenticationHeader();
+      expect(openidClient.refreshTokenGrant).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(2000);
+      await manager.getAuthenticationHeader();
+      expect(openidClient.refreshTokenGrant).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap the margin at half the token lifetime', async () => {
+      (jwtDecodeModule.jwtDecode as any).mockReturnValueOnce({
+        exp: Math.floor(Date.now() / 1000) + 30,
+      });
+      await manager.getAuthenticationHeader();
+
+      await manager.getAuthenticationHeader();
+
+      expect(openidClient.refreshTokenGrant).not.toHaveBeenCalled();
+    });
+
+    it('should refresh using the configured margin', async () => {
+      vi.useFakeTimers();
+      manager = new AuthenticationManager({
+        ...options,
+        refreshMargin: 600000,
+      });
+      await manager.getAuthenticationHeader();
+
+      vi.advanceTimersByTime(3600000 - 600000);
+      await manager.getAuthenticationHeader();
+
+      expect(openidClient.refreshTokenGrant).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one fetch between concurrent callers', async () => {
+      await Promise.all([
+        manager.getAuthenticationHeader(),
+        manager.getAuthenticationHeader(),
+        manager.getAuthenticationHeader(),
+      ]);
+
+      expect(openidClient.discovery).toHaveBeenCalledTimes(1);
+      expect(openidClient.clientCredentialsGrant).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a still-valid token when an early refresh fails', async () => {
+      vi.useFakeTimers();
+      await manager.getAuthenticationHeader();
+      (openidClient.refreshTokenGrant as any).mockRejectedValue(
+        new Error('invalid_grant'),
+      );
+      (openidClient.clientCredentialsGrant as any).mockRejectedValue(
+        new TypeError('fetch failed'),
+      );
+
+      vi.advanceTimersByTime(3600000 - 30000);
+
+      await expect(manager.getAuthenticationHeader()).resolves.toBe(
+        'Bearer mock_access_token',
+      );
+      expect(openidClient.clientCredentialsGrant).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use expires_in for tokens without an exp claim', async () => {
+      (jwtDecodeModule.jwtDecode as any).mockReturnValue({});
+      (openidClient.clientCredentialsGrant as any).mockResolvedValue({
+        ...mockToken,
+        expires_in: 600,
+      });
+
+      await manager.getAuthenticationHeader();
+
+      const expiresAt = manager.tokenExpiresAt!.getTime();
+      expect(expiresAt).toBeGreaterThan(Date.now() + 590000);
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + 600000);
+    });
+
+    it('should not cache opaque tokens without expiry forever', async () => {
+      vi.useFakeTimers();
+      (jwtDecodeModule.jwtDecode as any).mockImplementation(() => {
+        throw new Error('Invalid token specified');
+      });
+      await manager.getAuthenticationHeader();
+      expect(manager.tokenExpiresAt).toBeInstanceOf(Date);
+
+      vi.advanceTimersByTime(300000);
+      await manager.getAuthenticationHeader();
+
+      expect(openidClient.refreshTokenGrant).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh in the background with autoRefresh', async () => {
+      vi.useFakeTimers();
+      manager = new AuthenticationManager({ ...options, autoRefresh: true });
+      (jwtDecodeModule.jwtDecode as any).mockReturnValueOnce({
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      });
+      await manager.getAuthenticationHeader();
+      expect(openidClient.refreshTokenGrant).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(3600000 - defaultRefreshMargin);
+
+      expect(openidClient.refreshTokenGrant).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop refreshing in the background once stopped', async () => {
+      vi.useFakeTimers();
+      manager = new AuthenticationManager({ ...options, autoRefresh: true });
+      await manager.getAuthenticationHeader();
+
+      manager.stop();
+      await vi.advanceTimersByTimeAsync(3600000);
+
+      expect(openidClient.refreshTokenGrant).not.toHaveBeenCalled();
+    });
+  });
 });
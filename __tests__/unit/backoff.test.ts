@@ -0,0 +1,33 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { computeBackoffDelay } from '../../src/backoff.js';
+
+const options = {
+  initialDelay: 100,
+  maxDelay: 1000,
+  multiplier: 2,
+  jitter: 0,
+};
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should grow the delay exponentially', () => {
+    expect(computeBackoffDelay(1, options)).toBe(100);
+    expect(computeBackoffDelay(2, options)).toBe(200);
+    expect(computeBackoffDelay(3, options)).toBe(400);
+  });
+
+  it('should cap the delay at maxDelay', () => {
+    expect(computeBackoffDelay(10, options)).toBe(1000);
+  });
+
+  it('should apply jitter within the configured fraction', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoffDelay(1, { ...options, jitter: 0.5 })).toBe(50);
+
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(1, { ...options, jitter: 0.5 })).toBe(150);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type Mock,
+} from 'vitest';
+import { MicroBatcher } from '../../src/batcher.js';
+
+describe('MicroBatcher', () => {
+  let flushBatch: Mock<(items: string[]) => Promise<void>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flushBatch = vi.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush once maxBatchSize items are added', async () => {
+    const batcher = new MicroBatcher(flushBatch, { maxBatchSize: 2 });
+
+    const first = batcher.add('a', 1);
+    const second = batcher.add('b', 1);
+
+    await Promise.all([first, second]);
+    expect(flushBatch).toHaveBeenCalledTimes(1);
+    expect(flushBatch).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('should flush after maxDelayMs', async () => {
+    const batcher = new MicroBatcher(flushBatch, { maxDelayMs: 50 });
+
+    const added = batcher.add('a', 1);
+    expect(flushBatch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(50);
+    await added;
+    expect(flushBatch).toHaveBeenCalledWith(['a']);
+  });
+
+  it('should start a new batch when maxBatchBytes would be exceeded', async () => {
+    const batcher = new MicroBatcher(flushBatch, {
+      maxBatchBytes: 10,
+      maxDelayMs: 50,
+    });
+
+    const first = batcher.add('a', 6);
+    const second = batcher.add('b', 6);
+
+    await first;
+    expect(flushBatch).toHaveBeenNthCalledWith(1, ['a']);
+
+    await vi.advanceTimersByTimeAsync(50);
+    await second;
+    expect(flushBatch).toHaveBeenNthCalledWith(2, ['b']);
+  });
+
+  it('should reject every submitter in a batch that fails to flush', async () => {
+    flushBatch.mockRejectedValue(new Error('stream closed'));
+    const batcher = new MicroBatcher(flushBatch, { maxBatchSize: 2 });
+
+    const first = batcher.add('a', 1);
+    const second = batcher.add('b', 1);
+
+    await expect(first).rejects.toThrow('stream closed');
+    await expect(second).rejects.toThrow('stream closed');
+  });
+
+  it('should flush on demand', async () => {
+    const batcher = new MicroBatcher(flushBatch);
+
+    const added = batcher.add('a', 1);
+    expect(batcher.size).toBe(1);
+
+    await batcher.flush();
+    await added;
+    expect(batcher.size).toBe(0);
+    expect(flushBatch).toHaveBeenCalledWith(['a']);
+  });
+});
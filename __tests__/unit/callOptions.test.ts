@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  abortable,
+  createCallSignal,
+  createDeadline,
+  toAbortError,
+} from '../../src/callOptions.js';
+import { AthenaAbortError, AthenaTimeoutError } from '../../src/errors.js';
+
+describe('callOptions', () => {
+  describe('createCallSignal', () => {
+    it('should return undefined without a signal or timeout', () => {
+      expect(createCallSignal()).toBeUndefined();
+    });
+
+    it('should abort when the caller aborts', () => {
+      const controller = new AbortController();
+      const signal = createCallSignal({ signal: controller.signal });
+
+      controller.abort();
+
+      expect(signal.aborted).toBe(true);
+      expect(toAbortError(signal)).toBeInstanceOf(AthenaAbortError);
+    });
+
+    it('should abort with a timeout error when the timeout elapses', async () => {
+      const signal = createCallSignal({ timeoutMs: 1 });
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(signal.aborted).toBe(true);
+      expect(toAbortError(signal)).toBeInstanceOf(AthenaTimeoutError);
+    });
+  });
+
+  describe('createDeadline', () => {
+    it('should return Infinity without a timeout', () => {
+      expect(createDeadline()).toBe(Infinity);
+    });
+
+    it('should return a deadline relative to now', () => {
+      const before = Date.now();
+      const deadline = createDeadline({ timeoutMs: 1000 }) as number;
+      expect(deadline).toBeGreaterThanOrEqual(before + 1000);
+      expect(deadline).toBeLessThanOrEqual(Date.now() + 1000);
+    });
+  });
+
+  describe('abortable', () => {
+    it('should resolve with the promise result', async () => {
+      const controller = new AbortController();
+      await expect(
+        abortable(Promise.resolve('done'), controller.signal),
+      ).resolves.toBe('done');
+    });
+
+    it('should reject when the signal fires first', async () => {
+      const controller = new AbortController();
+      const pending = abortable(
+        new Promise(() => undefined),
+        controller.signal,
+      );
+
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AthenaAbortError);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      await expect(
+        abortable(Promise.resolve('done'), AbortSignal.abort()),
+      ).rejects.toBeInstanceOf(AthenaAbortError);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { createClientAuthentication } from '../../src/clientAuthentication.js';
+import { AuthenticationManager } from '../../src/authenticationManager.js';
+import { AthenaAuthError, AthenaInputError } from '../../src/errors.js';
+import { FakeOidcIssuer } from '../../src/testing/fakeOidcIssuer.js';
+
+const clientId = 'jwt-client';
+const clientSecret = 'a-client-secret-of-at-least-32-bytes';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+const ed = generateKeyPairSync('ed25519');
+const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const pem = (key: typeof rsa.privateKey): string =>
+  key.export({ format: 'pem', type: 'pkcs8' }) as string;
+
+describe('createClientAuthentication', () => {
+  it('should use client_secret_basic by default', () => {
+    expect(createClientAuthentication(undefined, 'secret')).toBeUndefined();
+    expect(() => createClientAuthentication(undefined, undefined)).toThrow(
+      AthenaInputError,
+    );
+  });
+
+  it('should require a client secret long enough for HS256', () => {
+    expect(() =>
+      createClientAuthentication({ type: 'client_secret_jwt' }, undefined),
+    ).toThrow(/clientSecret is required/);
+    expect(() =>
+      createClientAuthentication({ type: 'client_secret_jwt' }, 'short'),
+    ).toThrow(/at least 32 bytes/);
+  });
+
+  it.each([
+    ['garbage', 'not a key', undefined, /not a valid PEM or JWK/],
+    [
+      'a public key',
+      rsa.publicKey.export({ format: 'pem', type: 'spki' }) as string,
+      undefined,
+      /not a valid PEM or JWK/,
+    ],
+    [
+      'a short RSA key',
+      pem(generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey),
+      undefined,
+      /at least 2048 bits/,
+    ],
+    ['an RSA key for ES256', pem(rsa.privateKey), 'ES256', /cannot sign/],
+    ['a P-384 key for ES256', pem(ec.privateKey), 'ES256', /cannot sign/],
+    ['an EC key for EdDSA', pem(ec.privateKey), 'EdDSA', /cannot sign/],
+  ] as const)(
+    'should reject %s for private_key_jwt',
+    (_name, privateKey, algorithm, message) => {
+      expect(() =>
+        createClientAuthentication(
+          { type: 'private_key_jwt', privateKey, algorithm },
+          undefined,
+        ),
+      ).toThrow(message);
+    },
+  );
+
+  it('should reject a JWK without its private part', () => {
+    const { d: _d, ...publicJwk } = rsa.privateKey.export({ format: 'jwk' });
+
+    expect(() =>
+      createClientAuthentication(
+        { type: 'private_key_jwt', privateKey: publicJwk },
+        undefined,
+      ),
+    ).toThrow(AthenaInputError);
+  });
+
+  it('should fail at construction of the AuthenticationManager', () => {
+    expect(
+      () =>
+        new AuthenticationManager({
+          clientId,
+          issuerUrl: 'https://issuer.example.com/',
+          clientAuthentication: {
+            type: 'private_key_jwt',
+            privateKey: 'not a key',
+          },
+        }),
+    ).toThrow(AthenaInputError);
+  });
+});
+
+describe('AuthenticationManager client authentication', () => {
+  let issuer: FakeOidcIssuer;
+
+  beforeEach(async () => {
+    issuer = new FakeOidcIssuer({
+      clients: { [clientId]: clientSecret },
+      clientKeys: {
+        [clientId]: rsa.publicKey,
+        'ec-client': ec.privateKey,
+        'ed-client': ed.publicKey.export({ format: 'jwk' }),
+      },
+    });
+    await issuer.start();
+  });
+
+  afterEach(async () => {
+    await issuer.stop();
+  });
+
+  const getToken = (
+    options: Partial<ConstructorParameters<typeof AuthenticationManager>[0]>,
+  ) =>
+    new AuthenticationManager({
+      clientId,
+      issuerUrl: issuer.issuerUrl,
+      allowInsecureRequests: true,
+      ...options,
+    }).getToken();
+
+  it('should authenticate with client_secret_jwt', async () => {
+    const token = await getToken({
+      clientSecret,
+      clientAuthentication: { type: 'client_secret_jwt' },
+    });
+
+    expect(issuer.verify(token.accessToken)).toBe(true);
+    expect(issuer.issuedTokens[0]).toMatchObject({
+      clientId,
+      clientAuthentication: 'client_secret_jwt',
+    });
+  });
+
+  it('should authenticate with private_key_jwt from a PEM key', async () => {
+    await getToken({
+      clientAuthentication: {
+        type: 'private_key_jwt',
+        privateKey: pem(rsa.privateKey),
+        keyId: 'key-1',
+      },
+    });
+
+    expect(issuer.issuedTokens[0]).toMatchObject({
+      clientId,
+      clientAuthentication: 'private_key_jwt',
+      keyId: 'key-1',
+    });
+  });
+
+  it.each([
+    ['PS256 with an RSA JWK', clientId, rsa.privateKey, 'PS256'],
+    ['ES384 from the curve', 'ec-client', ec.privateKey, undefined],
+    ['EdDSA', 'ed-client', ed.privateKey, undefined],
+  ] as const)(
+    'should sign assertions with %s',
+    async (_name, client, key, algorithm) => {
+      await getToken({
+        clientId: client,
+        clientAuthentication: {
+          type: 'private_key_jwt',
+          privateKey: { ...key.export({ format: 'jwk' }), kid: 'jwk-kid' },
+          algorithm,
+        },
+      });
+
+      expect(issuer.issuedTokens[0]).toMatchObject({
+        clientId: client,
+        clientAuthentication: 'private_key_jwt',
+        keyId: 'jwk-kid',
+      });
+    },
+  );
+
+  it('should be rejected when signed with an unregistered key', async () => {
+    await expect(
+      getToken({
+        clientAuthentication: {
+          type: 'private_key_jwt',
+          privateKey: pem(other.privateKey),
+        },
+      }),
+    ).rejects.toBeInstanceOf(AthenaAuthError);
+    expect(issuer.issuedTokens).toHaveLength(0);
+  });
+
+  it('should be rejected when signed with the wrong secret', async () => {
+    await expect(
+      getToken({
+        clientSecret: 'another-client-secret-of-32-bytes-or-more',
+        clientAuthentication: { type: 'client_secret_jwt' },
+      }),
+    ).rejects.toBeInstanceOf(AthenaAuthError);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { createChannelCredentials } from '../../src/credentials.js';
+
+describe('createChannelCredentials', () => {
+  it('should default to TLS credentials', () => {
+    const credentials = createChannelCredentials();
+    expect(credentials._isSecure()).toBe(true);
+  });
+
+  it('should create insecure credentials', () => {
+    const credentials = createChannelCredentials({ type: 'insecure' });
+    expect(credentials._isSecure()).toBe(false);
+  });
+
+  it('should create TLS credentials with the system roots', () => {
+    const credentials = createChannelCredentials({ type: 'ssl' });
+    expect(credentials._isSecure()).toBe(true);
+  });
+
+  it('should pass through a grpc.ChannelCredentials instance', () => {
+    const custom = grpc.credentials.createInsecure();
+    expect(createChannelCredentials(custom)).toBe(custom);
+  });
+
+  it('should require both privateKey and certChain for mutual TLS', () => {
+    expect(() =>
+      createChannelCredentials({ type: 'ssl', privateKey: 'key' }),
+    ).toThrow('Both privateKey and certChain are required');
+    expect(() =>
+      createChannelCredentials({ type: 'ssl', certChain: 'cert' }),
+    ).toThrow('Both privateKey and certChain are required');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultGrpcAddress,
+  readEnvironment,
+  resolveEnvironment,
+} from '../../src/environment.js';
+import { defaultIssuerUrl } from '../../src/authenticationManager.js';
+import { AthenaInputError } from '../../src/errors.js';
+
+const credentials = {
+  ATHENA_CLIENT_ID: 'client-id',
+  ATHENA_CLIENT_SECRET: 'client-secret',
+  ATHENA_AFFILIATE: 'affiliate',
+};
+
+describe('resolveEnvironment', () => {
+  it('should fill in the live profile', () => {
+    expect(resolveEnvironment('live')).toEqual({
+      environment: 'live',
+      audience: 'crisp-athena-live',
+      issuerUrl: defaultIssuerUrl,
+      grpcAddress: defaultGrpcAddress,
+    });
+  });
+
+  it('should accept settings matching the profile', () => {
+    expect(
+      resolveEnvironment('live', {
+        audience: 'crisp-athena-live',
+        issuerUrl: 'https://crispthinking.auth0.com',
+      }).audience,
+    ).toBe('crisp-athena-live');
+  });
+
+  it('should reject an audience from another environment', () => {
+    expect(() =>
+      resolveEnvironment('live', { audience: 'crisp-athena-qa' }),
+    ).toThrow(
+      'authentication.audience "crisp-athena-qa" does not match the live environment ("crisp-athena-live"); set environment to custom to use it',
+    );
+  });
+
+  it('should reject unknown audiences', () => {
+    expect(() =>
+      resolveEnvironment('custom', {
+        audience: 'crisp-athena-prod',
+        issuerUrl: 'https://issuer.example.com/',
+        grpcAddress: 'athena.example.com:443',
+      }),
+    ).toThrow(
+      /^Invalid custom environment:\n- authentication.audience must be one of crisp-athena-live, crisp-athena-dev, crisp-athena-qa, got "crisp-athena-prod"$/,
+    );
+  });
+
+  it('should require the gRPC address where the profile has none', () => {
+    expect(() => resolveEnvironment('qa')).toThrow(
+      'grpcAddress is required for the qa environment',
+    );
+    expect(
+      resolveEnvironment('qa', { grpcAddress: 'athena-qa.example.com:443' }),
+    ).toEqual({
+      environment: 'qa',
+      audience: 'crisp-athena-qa',
+      issuerUrl: defaultIssuerUrl,
+      grpcAddress: 'athena-qa.example.com:443',
+    });
+  });
+
+  it('should require and check every setting for custom', () => {
+    let error: unknown;
+    try {
+      resolveEnvironment('custom', {
+        issuerUrl: 'http://issuer.example.com/',
+        grpcAddress: 'athena.example.com',
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(AthenaInputError);
+    expect((error as Error).message.split('\n')).toEqual([
+      'Invalid custom environment:',
+      '- authentication.audience is required for the custom environment',
+      '- authentication.issuerUrl must be an https URL, got "http://issuer.example.com/"',
+      '- grpcAddress must be host:port, got "athena.example.com"',
+    ]);
+  });
+
+  it('should allow a plain HTTP issuer with allowInsecureRequests', () => {
+    expect(
+      resolveEnvironment('custom', {
+        audience: 'crisp-athena-dev',
+        issuerUrl: 'http://127.0.0.1:8080/',
+        grpcAddress: '[::1]:50051',
+        allowInsecureRequests: true,
+      }).grpcAddress,
+    ).toBe('[::1]:50051');
+  });
+
+  it('should only check the gRPC address without authentication', () => {
+    expect(
+      resolveEnvironment('custom', {
+        grpcAddress: 'localhost:50051',
+        withAuthentication: false,
+      }).grpcAddress,
+    ).toBe('localhost:50051');
+  });
+});
+
+describe('readEnvironment', () => {
+  it('should default to the live environment', () => {
+    expect(readEnvironment(credentials)).toEqual({
+      environment: 'live',
+      grpcAddress: defaultGrpcAddress,
+      affiliate: 'affiliate',
+      deploymentId: '',
+      authentication: {
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        audience: 'crisp-athena-live',
+        issuerUrl: defaultIssuerUrl,
+      },
+    });
+  });
+
+  it('should read a named environment, trimming values', () => {
+    const config = readEnvironment({
+      ...credentials,
+      ATHENA_ENVIRONMENT: ' dev ',
+      ATHENA_GRPC_ADDRESS: 'athena-dev.example.com:443',
+      ATHENA_DEPLOYMENT_ID: 'deployment',
+      ATHENA_AUDIENCE: '',
+    });
+
+    expect(config).toMatchObject({
+      environment: 'dev',
+      grpcAddress: 'athena-dev.example.com:443',
+      deploymentId: 'deployment',
+      authentication: { audience: 'crisp-athena-dev' },
+    });
+  });
+
+  it('should ignore unrelated ATHENA_* variables', () => {
+    expect(
+      readEnvironment({ ...credentials, ATHENA_LOG_LEVEL: 'debug' }),
+    ).toMatchObject({ environment: 'live', affiliate: 'affiliate' });
+  });
+
+  it('should list every problem with the variables', () => {
+    expect(() =>
+      readEnvironment({
+        ATHENA_CLIENT_ID: 'client-id',
+        ATHENA_AUDIENCE: 'crisp-athena-qa',
+        ATHENA_OTHER_SERVICE_URL: 'ignored',
+        OTHER: 'ignored',
+      }),
+    ).toThrow(
+      [
+        'Invalid Athena environment variables:',
+        '- ATHENA_CLIENT_SECRET is required',
+        '- ATHENA_AFFILIATE is required',
+        '- ATHENA_AUDIENCE "crisp-athena-qa" does not match the live environment ("crisp-athena-live"); set ATHENA_ENVIRONMENT to custom to use it',
+      ].join('\n'),
+    );
+  });
+
+  it('should reject unknown environments and audiences', () => {
+    expect(() =>
+      readEnvironment({ ...credentials, ATHENA_ENVIRONMENT: 'staging' }),
+    ).toThrow(
+      'ATHENA_ENVIRONMENT must be one of live, dev, qa, custom, got "staging"',
+    );
+    expect(() =>
+      readEnvironment({ ...credentials, ATHENA_AUDIENCE: 'crisp-athena-liv' }),
+    ).toThrow(
+      /^Invalid Athena environment variables:\n- ATHENA_AUDIENCE must be one of crisp-athena-live, crisp-athena-dev, crisp-athena-qa, got "crisp-athena-liv"$/,
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import {
+  AthenaAuthError,
+  AthenaClassificationError,
+  AthenaError,
+  AthenaInputError,
+  AthenaTimeoutError,
+  AthenaTransportError,
+  fromServiceError,
+  toAthenaError,
+} from '../../src/errors.js';
+
+const serviceError = (code: grpc.status, details = 'failure') =>
+  Object.assign(new Error(`${code} ${grpc.status[code]}: ${details}`), {
+    code,
+    details,
+    metadata: new grpc.Metadata(),
+  }) as grpc.ServiceError;
+
+describe('errors', () => {
+  it('should map authentication failures to AthenaAuthError', () => {
+    for (const code of [
+      grpc.status.UNAUTHENTICATED,
+      grpc.status.PERMISSION_DENIED,
+    ]) {
+      const err = fromServiceError(serviceError(code));
+
+      expect(err).toBeInstanceOf(AthenaAuthError);
+      expect(err).toMatchObject({ code, retryable: false });
+    }
+  });
+
+  it('should map INVALID_ARGUMENT to AthenaInputError', () => {
+    const err = fromServiceError(
+      serviceError(grpc.status.INVALID_ARGUMENT),
+      'abc',
+    );
+
+    expect(err).toBeInstanceOf(AthenaInputError);
+    expect(err.correlationId).toBe('abc');
+  });
+
+  it('should map other failures to AthenaTransportError', () => {
+    const original = serviceError(grpc.status.UNAVAILABLE, 'connection reset');
+    const err = fromServiceError(original);
+
+    expect(err).toBeInstanceOf(AthenaTransportError);
+    expect(err).toMatchObject({
+      code: grpc.status.UNAVAILABLE,
+      details: 'connection reset',
+      metadata: original.metadata,
+      retryable: true,
+    });
+    expect(err.cause).toBe(original);
+  });
+
+  it('should not mark non-transient failures as retryable', () => {
+    const err = fromServiceError(serviceError(grpc.status.INTERNAL));
+
+    expect(err.retryable).toBe(false);
+  });
+
+  it('should build classification errors from service payloads', () => {
+    const err = AthenaClassificationError.fromClassificationError(
+      { code: 2, message: 'Image too large' } as any,
+      'abc',
+    );
+
+    expect(err).toBeInstanceOf(AthenaError);
+    expect(err.message).toBe(
+      'Classification failed for correlationId abc: Image too large',
+    );
+    expect(err).toMatchObject({ code: 2, correlationId: 'abc' });
+  });
+
+  it('should convert unknown errors with toAthenaError', () => {
+    const timeout = new AthenaTimeoutError();
+    expect(toAthenaError(timeout)).toBe(timeout);
+
+    expect(
+      toAthenaError(serviceError(grpc.status.UNAUTHENTICATED)),
+    ).toBeInstanceOf(AthenaAuthError);
+
+    expect(
+      toAthenaError({ code: 1, message: 'Bad deployment' }),
+    ).toBeInstanceOf(AthenaClassificationError);
+
+    const plain = new Error('boom');
+    const wrapped = toAthenaError(plain);
+    expect(wrapped).toBeInstanceOf(AthenaError);
+    expect(wrapped.message).toBe('boom');
+    expect(wrapped.cause).toBe(plain);
+  });
+});
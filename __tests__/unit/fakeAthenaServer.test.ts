@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import * as grpc from '@grpc/grpc-js';
+import sharp from 'sharp';
+import {
+  ClassifierSdk,
+  type ClassifierSdkOptions,
+  ErrorCode,
+  HashType,
+  ImageFormat,
+  RequestEncoding,
+} from '../../src/index.js';
+import {
+  AthenaAuthError,
+  AthenaClassificationError,
+  AthenaError,
+  AthenaInputError,
+  AthenaTimeoutError,
+  AthenaTransportError,
+} from '../../src/errors.js';
+import {
+  FakeAthenaServer,
+  FakeOidcIssuer,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+} from '../../src/testing/index.js';
+
+describe('FakeAthenaServer', () => {
+  let image: Buffer;
+  let issuer: FakeOidcIssuer;
+  let server: FakeAthenaServer;
+  let sdk: ClassifierSdk;
+
+  const sdkOptions = (): ClassifierSdkOptions => ({
+    deploymentId: 'test-deployment',
+    affiliate: 'test-affiliate',
+    grpcAddress: server.address,
+    credentials: { type: 'insecure' },
+    authentication: {
+      issuerUrl: issuer.issuerUrl,
+      clientId: defaultFakeClientId,
+      clientSecret: defaultFakeClientSecret,
+      allowInsecureRequests: true,
+    },
+  });
+
+  beforeAll(async () => {
+    image = await sharp({
+      create: { width: 448, height: 448, channels: 3, background: 'green' },
+    })
+      .jpeg()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    issuer = new FakeOidcIssuer();
+    await issuer.start();
+    server = new FakeAthenaServer({ issuer });
+    await server.start();
+    sdk = new ClassifierSdk(sdkOptions());
+  });
+
+  afterEach(async () => {
+    await sdk.close();
+    await server.stop();
+    await issuer.stop();
+  });
+
+  it('should return scripted outputs over the classify stream', async () => {
+    server.respondTo('image-1', {
+      classifications: [{ label: 'safe', weight: 0.5 }],
+    });
+    await sdk.open();
+
+    const output = await sdk.classify({
+      correlationId: 'image-1',
+      data: image,
+      resize: false,
+      format: ImageFormat.IMAGE_FORMAT_JPEG,
+    });
+
+    expect(output.correlationId).toBe('image-1');
+    expect(output.classifications).toEqual([{ label: 'safe', weight: 0.5 }]);
+  });
+
+  it('should match scripted outputs by image hash', async () => {
+    const md5 = createHash('md5').update(image).digest('hex');
+    server.respondToHash(md5, {
+      classifications: [{ label: 'known', weight: 1 }],
+    });
+
+    const output = await sdk.classifySingle({
+      data: image,
+      resize: false,
+      format: ImageFormat.IMAGE_FORMAT_JPEG,
+    });
+
+    expect(output.classifications).toEqual([{ label: 'known', weight: 1 }]);
+  });
+
+  it('should return the default output for unscripted inputs', async () => {
+    const output = await sdk.classifySingle({
+      correlationId: 'unscripted',
+      data: image,
+      resize: false,
+      format: ImageFormat.IMAGE_FORMAT_JPEG,
+    });
+
+    expect(output.correlationId).toBe('unscripted');
+    expect(output.classifications).toEqual([]);
+  });
+
+  it('should reject a deploymentId passed to classifySingle', async () => {
+    await expect(
+      sdk.classifySingle({
+        deploymentId: 'other-deployment',
+        data: image,
+        resize: false,
+        format: ImageFormat.IMAGE_FORMAT_JPEG,
+      }),
+    ).rejects.toBeInstanceOf(AthenaInputError);
+  });
+
+  it('should list the configured deployments', async () => {
+    server.setDeployments([{ deploymentId: 'test-deployment' } as any]);
+
+    const deployments = await sdk.listDeployments();
+
+    expect(deployments).toEqual([
+      expect.objectContaining({ deploymentId: 'test-deployment' }),
+    ]);
+  });
+
+  it('should reject tokens that have expired', async () => {
+    await sdk.listDeployments();
+    issuer.expireTokens();
+
+    await expect(sdk.listDeployments()).rejects.toBeInstanceOf(AthenaAuthError);
+  });
+
+  describe('fault injection', () => {
+    const input = (correlationId: string) => ({
+      correlationId,
+      data: image,
+      resize: false as const,
+      format: ImageFormat.IMAGE_FORMAT_JPEG,
+    });
+
+    it('should return per-output errors with the chosen code', async () => {
+      server.respondTo('too-large', {
+        error: { code: ErrorCode.ERROR_CODE_IMAGE_TOO_LARGE, message: 'big' },
+      });
+      await sdk.open();
+
+      const err = await sdk.classify(input('too-large')).catch((e) => e);
+
+      expect(err).toBeInstanceOf(AthenaClassificationError);
+      expect(err.code).toBe(ErrorCode.ERROR_CODE_IMAGE_TOO_LARGE);
+    });
+
+    it('should return global errors', async () => {
+      server.injectFault({
+        type: 'globalError',
+        error: { code: ErrorCode.ERROR_CODE_UNSPECIFIED, message: 'overload' },
+      });
+      await sdk.open();
+
+      await expect(sdk.classify(input('a'))).rejects.toBeInstanceOf(
+        AthenaClassificationError,
+      );
+    });
+
+    it('should fail calls with an injected status', async () => {
+      server.injectFault({
+        type: 'status',
+        code: grpc.status.UNAUTHENTICATED,
+        method: 'listDeployments',
+      });
+
+      await expect(sdk.listDeployments()).rejects.toBeInstanceOf(
+        AthenaAuthError,
+      );
+      await expect(sdk.listDeployments()).resolves.toEqual([]);
+    });
+
+    it('should delay responses', async () => {
+      server.injectFault({ type: 'latency', delayMs: 200 });
+      const start = Date.now();
+
+      await sdk.listDeployments();
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should return outputs out of order', async () => {
+      server.injectFault({ type: 'outOfOrder' });
+      const received: string[] = [];
+      sdk.on('output', (output) => received.push(output.correlationId));
+      await sdk.open();
+
+      const outputs = await sdk.classifyMany([input('a'), input('b')]);
+
+      expect(received).toEqual(['b', 'a']);
+      expect(outputs.map((o) => o.correlationId)).toEqual(['a', 'b']);
+    });
+
+    it('should answer only some outputs', async () => {
+      server.injectFault({ type: 'partialOutputs', count: 1 });
+      sdk = new ClassifierSdk({ ...sdkOptions(), requestTimeout: 200 });
+      const outputs: string[] = [];
+      sdk.on('output', (output) => outputs.push(output.correlationId));
+      await sdk.open();
+
+      await expect(
+        sdk.classifyMany([input('a'), input('b')]),
+      ).rejects.toBeInstanceOf(AthenaTimeoutError);
+      expect(outputs).toEqual(['a']);
+    });
+
+    it('should reset the classify stream mid-response', async () => {
+      server.injectFault({ type: 'reset', afterOutputs: 1 });
+      sdk = new ClassifierSdk({ ...sdkOptions(), reconnect: false });
+      await sdk.open();
+      const outputs: string[] = [];
+      const errors: Error[] = [];
+      sdk.on('output', (output) => outputs.push(output.correlationId));
+      sdk.on('error', (err) => errors.push(err));
+
+      await expect(
+        sdk.classifyMany([input('a'), input('b')]),
+      ).rejects.toBeInstanceOf(AthenaError);
+      expect(outputs).toEqual(['a']);
+      expect(errors).toEqual([expect.any(AthenaTransportError)]);
+    });
+  });
+
+  describe('received requests', () => {
+    it('should record classify requests as received', async () => {
+      await sdk.open();
+
+      await sdk.classify({
+        correlationId: 'a',
+        deploymentId: 'other-deployment',
+        data: image,
+        resize: false,
+        format: ImageFormat.IMAGE_FORMAT_PNG,
+        includeHashes: [HashType.HASH_TYPE_MD5],
+      });
+
+      const [received] = await server.waitForInputs(1);
+      expect(received.method).toBe('classify');
+      expect(received.deploymentId).toBe('other-deployment');
+      expect(received.input.format).toBe(ImageFormat.IMAGE_FORMAT_PNG);
+      expect(received.input.encoding).toBe(
+        RequestEncoding.REQUEST_ENCODING_UNCOMPRESSED,
+      );
+      expect(received.input.hashes).toEqual([
+        {
+          type: HashType.HASH_TYPE_MD5,
+          value: createHash('md5').update(image).digest('hex'),
+        },
+      ]);
+      expect(server.classifyRequests).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ deploymentId: 'other-deployment' }),
+        ]),
+      );
+    });
+
+    it('should time out waiting for inputs that never arrive', async () => {
+      await expect(server.waitForInputs(1, 50)).rejects.toThrow(
+        'Received 0 of 1 inputs within 50ms',
+      );
+    });
+  });
+});
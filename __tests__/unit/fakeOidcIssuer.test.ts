@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthenticationManager } from '../../src/authenticationManager.js';
+import { AthenaAuthError } from '../../src/errors.js';
+import {
+  FakeOidcIssuer,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+} from '../../src/testing/fakeOidcIssuer.js';
+
+describe('FakeOidcIssuer', () => {
+  let issuer: FakeOidcIssuer;
+
+  beforeEach(async () => {
+    issuer = new FakeOidcIssuer();
+    await issuer.start();
+  });
+
+  afterEach(async () => {
+    await issuer.stop();
+  });
+
+  const createManager = (clientSecret = defaultFakeClientSecret) =>
+    new AuthenticationManager({
+      clientId: defaultFakeClientId,
+      clientSecret,
+      issuerUrl: issuer.issuerUrl,
+      allowInsecureRequests: true,
+    });
+
+  it('should issue client-credentials tokens over a local socket', async () => {
+    const header = await createManager().getAuthenticationHeader();
+
+    const [issued] = issuer.issuedTokens;
+    expect(header).toBe(`bearer ${issued.accessToken}`);
+    expect(issued.clientId).toBe(defaultFakeClientId);
+    expect(issued.audience).toBe('crisp-athena-live');
+    expect(issuer.verify(issued.accessToken)).toBe(true);
+  });
+
+  it('should reject unknown client secrets', async () => {
+    await expect(
+      createManager('wrong-secret').getAuthenticationHeader(),
+    ).rejects.toBeInstanceOf(AthenaAuthError);
+    expect(issuer.issuedTokens).toHaveLength(0);
+  });
+
+  it('should stop verifying expired tokens', async () => {
+    await createManager().getAuthenticationHeader();
+    const [issued] = issuer.issuedTokens;
+
+    issuer.expireTokens();
+
+    expect(issuer.verify(issued.accessToken)).toBe(false);
+    expect(issuer.verify('not-a-token')).toBe(false);
+  });
+});
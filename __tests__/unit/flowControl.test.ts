@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FlowController } from '../../src/flowControl.js';
+import { AthenaAbortError, AthenaQueueFullError } from '../../src/errors.js';
+
+describe('FlowController', () => {
+  it('should admit callers up to maxInFlight', async () => {
+    const flow = new FlowController({ maxInFlight: 2 });
+
+    await flow.acquire(1);
+    await flow.acquire(1);
+
+    expect(flow.stats()).toEqual({ inFlight: 2, queued: 0 });
+  });
+
+  it('should queue callers beyond maxInFlight until slots are released', async () => {
+    const flow = new FlowController({ maxInFlight: 1 });
+    await flow.acquire(1);
+
+    let admitted = false;
+    const waiting = flow.acquire(1).then(() => {
+      admitted = true;
+    });
+
+    await Promise.resolve();
+    expect(admitted).toBe(false);
+    expect(flow.queued).toBe(1);
+
+    flow.release();
+    await waiting;
+
+    expect(admitted).toBe(true);
+    expect(flow.stats()).toEqual({ inFlight: 1, queued: 0 });
+  });
+
+  it('should reject with AthenaQueueFullError once maxQueued is reached', async () => {
+    const flow = new FlowController({ maxInFlight: 1, maxQueued: 1 });
+    await flow.acquire(1);
+    void flow.acquire(1);
+
+    await expect(flow.acquire(1)).rejects.toBeInstanceOf(AthenaQueueFullError);
+  });
+
+  it('should admit an oversized request once nothing is in flight', async () => {
+    const flow = new FlowController({ maxInFlight: 2 });
+
+    await flow.acquire(5);
+
+    expect(flow.inFlight).toBe(5);
+  });
+
+  it('should stop waiting when the signal fires', async () => {
+    const flow = new FlowController({ maxInFlight: 1 });
+    await flow.acquire(1);
+    const controller = new AbortController();
+
+    const waiting = flow.acquire(1, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(AthenaAbortError);
+    expect(flow.queued).toBe(0);
+  });
+
+  it('should report when it becomes saturated and when it is relieved', async () => {
+    const onChange = vi.fn();
+    const flow = new FlowController({ maxInFlight: 1 }, onChange);
+
+    await flow.acquire(1);
+    expect(onChange).toHaveBeenLastCalledWith(true, {
+      inFlight: 1,
+      queued: 0,
+    });
+
+    flow.release();
+    expect(onChange).toHaveBeenLastCalledWith(false, {
+      inFlight: 0,
+      queued: 0,
+    });
+  });
+});
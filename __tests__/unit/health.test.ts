@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { runHealthStage } from '../../src/health.js';
+import { AthenaAuthError, AthenaError } from '../../src/errors.js';
+
+describe('runHealthStage', () => {
+  it('should report the status and details of a passing stage', async () => {
+    const result = await runHealthStage({ state: 'IDLE' }, async (details) => {
+      details.state = 'READY';
+      return 'pass';
+    });
+
+    expect(result).toMatchObject({ status: 'pass', state: 'READY' });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should report skipped stages', async () => {
+    const result = await runHealthStage({}, async () => 'skip');
+
+    expect(result.status).toBe('skip');
+  });
+
+  it('should capture errors as Athena errors with the details so far', async () => {
+    const authError = new AthenaAuthError('token expired');
+    const auth = await runHealthStage<{ expiresAt?: Date }>(
+      {},
+      async (details) => {
+        details.expiresAt = new Date(0);
+        throw authError;
+      },
+    );
+    const other = await runHealthStage({}, async () => {
+      throw new Error('boom');
+    });
+
+    expect(auth).toMatchObject({
+      status: 'fail',
+      error: authError,
+      expiresAt: new Date(0),
+    });
+    expect(other.error).toBeInstanceOf(AthenaError);
+    expect(other.error?.message).toBe('boom');
+  });
+});
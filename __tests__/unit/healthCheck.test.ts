@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import {
+  AthenaAuthError,
+  AthenaInputError,
+  ClassifierSdk,
+  type ClassifierSdkOptions,
+} from '../../src/index.js';
+import {
+  FakeAthenaServer,
+  FakeOidcIssuer,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+} from '../../src/testing/index.js';
+
+describe('ClassifierSdk.healthCheck', () => {
+  let issuer: FakeOidcIssuer;
+  let server: FakeAthenaServer;
+  let sdk: ClassifierSdk;
+
+  const sdkOptions = (): ClassifierSdkOptions => ({
+    deploymentId: 'test-deployment',
+    affiliate: 'test-affiliate',
+    grpcAddress: server.address,
+    credentials: { type: 'insecure' },
+    authentication: {
+      issuerUrl: issuer.issuerUrl,
+      clientId: defaultFakeClientId,
+      clientSecret: defaultFakeClientSecret,
+      allowInsecureRequests: true,
+    },
+  });
+
+  beforeEach(async () => {
+    issuer = new FakeOidcIssuer();
+    await issuer.start();
+    server = new FakeAthenaServer({
+      issuer,
+      deployments: [{ deploymentId: 'test-deployment' } as any],
+    });
+    await server.start();
+    sdk = new ClassifierSdk(sdkOptions());
+  });
+
+  afterEach(async () => {
+    await sdk.close();
+    await server.stop();
+    await issuer.stop();
+  });
+
+  it('should pass every stage when the service is reachable', async () => {
+    const report = await sdk.healthCheck();
+
+    expect(report.healthy).toBe(true);
+    expect(report.mode).toBe('full');
+    expect(report.discovery.status).toBe('pass');
+    expect(report.token.status).toBe('pass');
+    expect(report.token.expiresAt).toEqual(issuer.issuedTokens[0].expiresAt);
+    expect(report.channel).toMatchObject({ status: 'pass', state: 'READY' });
+    expect(report.deployment).toMatchObject({ status: 'pass', found: true });
+    expect(report.stream).toMatchObject({ status: 'pass', state: 'idle' });
+  });
+
+  it('should report a missing deployment', async () => {
+    server.setDeployments([]);
+
+    const report = await sdk.healthCheck();
+
+    expect(report.healthy).toBe(false);
+    expect(report.deployment).toMatchObject({ status: 'fail', found: false });
+    expect(report.deployment.error).toBeInstanceOf(AthenaInputError);
+  });
+
+  it('should report each failing stage on its own', async () => {
+    await issuer.stop();
+    await server.stop();
+
+    const report = await sdk.healthCheck({ timeoutMs: 500 });
+
+    expect(report.healthy).toBe(false);
+    expect(report.discovery.error).toBeInstanceOf(AthenaAuthError);
+    expect(report.token.status).toBe('fail');
+    expect(report.channel.status).toBe('fail');
+    expect(report.stream.status).toBe('pass');
+  });
+
+  it('should skip uncached stages without network calls in cached mode', async () => {
+    const report = await sdk.healthCheck({ mode: 'cached' });
+
+    expect(report.healthy).toBe(true);
+    expect(report.discovery.status).toBe('skip');
+    expect(report.token.status).toBe('skip');
+    expect(report.deployment.status).toBe('skip');
+    expect(issuer.issuedTokens).toHaveLength(0);
+    expect(server.receivedInputs).toHaveLength(0);
+  });
+
+  it('should report cached state after a full check', async () => {
+    await sdk.healthCheck();
+    server.injectFault({
+      type: 'status',
+      code: grpc.status.UNAVAILABLE,
+      times: Infinity,
+    });
+
+    const report = await sdk.healthCheck({ mode: 'cached' });
+
+    expect(report.healthy).toBe(true);
+    expect(report.token.status).toBe('pass');
+    expect(report.deployment).toMatchObject({ status: 'pass', found: true });
+  });
+});
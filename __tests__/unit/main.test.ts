@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ClassifierSdk, ImageFormat } from '../../src/index.js';
+import { EventEmitter } from 'events';
+import {
+  AthenaInputError,
+  AthenaTimeoutError,
+  AthenaTransportError,
+  ClassifierSdk,
+  ImageFormat,
+  defaultGrpcAddress,
+} from '../../src/index.js';
+import { AuthenticationManager } from '../../src/authenticationManager.js';
 
 // Mock the dependencies
 vi.mock('@grpc/grpc-js', () => ({
@@ -16,13 +25,22 @@ vi.mock('@grpc/grpc-js', () => ({
       this.classify = vi.fn();
       this.listDeployments = vi.fn();
       this.classifySingle = vi.fn();
+      this.waitForReady = vi.fn((_deadline, callback) => callback());
     }
     MockClient.service = service;
     MockClient.serviceName = serviceName;
     return MockClient;
   }),
   // Add other grpc exports that might be needed
-  Metadata: vi.fn(() => ({})),
+  Metadata: vi.fn(function () {
+    return { set: vi.fn() };
+  }),
+  InterceptingCall: class {},
+  status: {
+    DEADLINE_EXCEEDED: 4,
+    RESOURCE_EXHAUSTED: 8,
+    UNAVAILABLE: 14,
+  },
 }));
 vi.mock('../../src/authenticationManager');
 
@@ -30,6 +48,9 @@ describe('ClassifierSdk', () => {
   let sdk: ClassifierSdk;
 
   beforeEach(() => {
+    vi.mocked(AuthenticationManager.prototype.getToken).mockResolvedValue({
+      accessToken: 'test-token',
+    });
     sdk = new ClassifierSdk({
       deploymentId: 'test-deployment',
       affiliate: 'test-affiliate',
@@ -63,6 +84,27 @@ describe('ClassifierSdk', () => {
       expect(customSdk).toBeInstanceOf(ClassifierSdk);
     });
 
+    it('should warn when a non-live audience has no grpcAddress or environment', () => {
+      const warn = vi.fn();
+      const qaSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+          audience: 'crisp-athena-qa',
+        },
+      });
+
+      expect((qaSdk as any).grpcAddress).toBe(defaultGrpcAddress);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('non-live audience'),
+        expect.objectContaining({ audience: 'crisp-athena-qa' }),
+      );
+    });
+
     it('should accept optional keepAliveInterval configuration', () => {
       const customSdk = new ClassifierSdk({
         deploymentId: 'test-deployment',
@@ -75,11 +117,56 @@ describe('ClassifierSdk', () => {
         },
       });
 
+      expect(customSdk).toBeDefined();
+      expect(customSdk).toBeInstanceOf(ClassifierSdk);
+      expect((customSdk as any).client.options).toMatchObject({
+        'grpc.keepalive_time_ms': 5000,
+      });
+    });
+
+    it('should accept optional reconnect configuration', () => {
+      const customSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        reconnect: { maxAttempts: 3, inFlight: 'resend' },
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+
       expect(customSdk).toBeDefined();
       expect(customSdk).toBeInstanceOf(ClassifierSdk);
     });
   });
 
+  describe('client options', () => {
+    it('should pass interceptors and channel options to the gRPC client', () => {
+      const interceptor = vi.fn();
+      const customSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        interceptors: [interceptor],
+        channelOptions: {
+          'grpc.max_receive_message_length': 1024,
+          'grpc.primary_user_agent': 'test-agent',
+        },
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+
+      expect((customSdk as any).client.options).toEqual({
+        'grpc.max_receive_message_length': 1024,
+        'grpc.primary_user_agent': 'test-agent',
+        interceptors: [interceptor],
+      });
+    });
+  });
+
   describe('ImageFormat enum', () => {
     it('should have all expected image formats', () => {
       expect(ImageFormat.IMAGE_FORMAT_PNG).toBeDefined();
@@ -154,20 +241,424 @@ describe('ClassifierSdk', () => {
         'gRPC stream is not open',
       );
     });
+
+    it('should have classify and classifyMany methods', () => {
+      expect(typeof sdk.classify).toBe('function');
+      expect(typeof sdk.classifyMany).toBe('function');
+    });
+
+    it('should throw error when classify called without open', async () => {
+      const input = {
+        data: Buffer.from('test'),
+        format: ImageFormat.IMAGE_FORMAT_PNG,
+      };
+
+      await expect(sdk.classify(input)).rejects.toThrow(
+        'gRPC stream is not open',
+      );
+    });
   });
 
   describe('connection lifecycle', () => {
     it('should handle open/close operations', async () => {
       // Mock the underlying gRPC operations
       const mockOpen = vi.spyOn(sdk, 'open').mockResolvedValue(void 0);
-      const mockClose = vi.spyOn(sdk, 'close').mockReturnValue(void 0);
+      const mockClose = vi
+        .spyOn(sdk, 'close')
+        .mockResolvedValue({ completed: [], abandoned: [] });
 
       await sdk.open();
       expect(mockOpen).toHaveBeenCalled();
 
-      sdk.close();
+      await sdk.close();
       expect(mockClose).toHaveBeenCalled();
     });
+
+    it('should move through connection states and open only once', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      const states: string[] = [];
+      const onClose = vi.fn();
+      sdk.on('stateChange', (state) => states.push(state));
+      sdk.on('close', onClose);
+
+      expect(sdk.state).toBe('idle');
+      await Promise.all([sdk.open(), sdk.open()]);
+      await sdk.open();
+      expect(sdk.state).toBe('open');
+      expect((sdk as any).client.classify).toHaveBeenCalledTimes(1);
+
+      await Promise.all([sdk.close(), sdk.close()]);
+      await sdk.close();
+      call.emit('end');
+      call.emit('close');
+
+      expect(states).toEqual(['connecting', 'open', 'closing', 'closed']);
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(call.end).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the channel does not become ready', async () => {
+      (sdk as any).client.waitForReady.mockImplementation(
+        (_deadline, callback) =>
+          callback(new Error('Failed to connect before the deadline')),
+      );
+
+      await expect(sdk.open()).rejects.toThrow('was not ready');
+      expect(sdk.state).toBe('failed');
+      expect((sdk as any).client.classify).not.toHaveBeenCalled();
+    });
+
+    it('should close once when the server ends the stream', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      const onClose = vi.fn();
+      sdk.on('close', onClose);
+      await sdk.open();
+
+      call.emit('end');
+      call.emit('close');
+
+      expect(sdk.state).toBe('closed');
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore errors from a call that has already been closed', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      await sdk.open();
+      await sdk.close();
+
+      expect(() =>
+        call.emit('error', Object.assign(new Error('cancelled'), { code: 1 })),
+      ).not.toThrow();
+      expect(sdk.state).toBe('closed');
+    });
+
+    it('should stop only the token providers it created', async () => {
+      const provider = {
+        getToken: vi.fn().mockResolvedValue({ accessToken: 'test-token' }),
+        stop: vi.fn(),
+      };
+      const providerSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        authentication: provider,
+      });
+
+      await sdk.close();
+      await providerSdk.close();
+
+      expect(AuthenticationManager.prototype.stop).toHaveBeenCalled();
+      expect(provider.stop).not.toHaveBeenCalled();
+    });
+
+    it('should reject in-flight requests that cannot be resent after reconnecting', async () => {
+      const resendSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        reconnect: { inFlight: 'resend', initialDelay: 0, jitter: 0 },
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+      const first = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      const second = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => {
+          throw new Error('write after end');
+        }),
+        end: vi.fn(),
+      });
+      (resendSdk as any).client.classify
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(second);
+      const onReconnected = vi.fn();
+      resendSdk.on('reconnected', onReconnected);
+      await resendSdk.open();
+      const response = (resendSdk as any).pending.track({
+        deploymentId: 'test-deployment',
+        input: { correlationId: 'a' },
+      });
+
+      first.emit('end');
+
+      await expect(response).rejects.toThrow(
+        'Failed to resend requests after reconnecting',
+      );
+      await expect(response).rejects.toBeInstanceOf(AthenaTransportError);
+      await (resendSdk as any).reconnecting;
+      expect(onReconnected).toHaveBeenCalledWith(1);
+      expect(second.write).toHaveBeenCalled();
+      await resendSdk.close();
+    });
+
+    it('should keep reconnecting without an error listener', async () => {
+      const reconnectSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        reconnect: { maxAttempts: 2, initialDelay: 0, jitter: 0 },
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      const client = (reconnectSdk as any).client;
+      client.classify.mockReturnValue(call);
+      const onReconnecting = vi.fn();
+      reconnectSdk.on('reconnecting', onReconnecting);
+      await reconnectSdk.open();
+      client.waitForReady.mockImplementation((_deadline, callback) =>
+        callback(new Error('Failed to connect before the deadline')),
+      );
+
+      call.emit('end');
+      await (reconnectSdk as any).reconnecting;
+
+      expect(onReconnecting).toHaveBeenCalledTimes(2);
+      expect(reconnectSdk.state).toBe('failed');
+    });
+
+    it('should close an idle stream and reopen it on the next request', async () => {
+      vi.useFakeTimers();
+      const idleSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        idleTimeout: 1000,
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+      const calls = [0, 1].map(() =>
+        Object.assign(new EventEmitter(), {
+          write: vi.fn(() => true),
+          end: vi.fn(),
+        }),
+      );
+      const client = (idleSdk as any).client;
+      client.classify
+        .mockReturnValueOnce(calls[0])
+        .mockReturnValueOnce(calls[1]);
+      vi.spyOn(idleSdk as any, 'processImageInput').mockResolvedValue({
+        correlationId: 'a',
+        data: Buffer.from('test'),
+      });
+
+      await idleSdk.open();
+      vi.advanceTimersByTime(1000);
+
+      expect(calls[0].end).toHaveBeenCalled();
+      expect(idleSdk.state).toBe('idle');
+
+      await idleSdk.sendClassifyRequest({
+        data: Buffer.from('test'),
+        format: 0,
+      } as any);
+
+      expect(idleSdk.state).toBe('open');
+      expect(client.classify).toHaveBeenCalledTimes(2);
+      expect(calls[1].write).toHaveBeenCalled();
+      vi.useRealTimers();
+    });
+
+    it('should emit requestSent and output events with timings', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      vi.spyOn(sdk as any, 'processImageInput').mockResolvedValue({
+        correlationId: 'a',
+        affiliate: 'test-affiliate',
+        data: Buffer.from('test'),
+      });
+      const onSent = vi.fn();
+      const onOutput = vi.fn();
+      sdk.on('requestSent', onSent);
+      sdk.on('output', onOutput);
+      await sdk.open();
+
+      const result = sdk.classify({
+        data: Buffer.from('test'),
+        format: 0,
+      } as any);
+      await vi.waitFor(() => expect(onSent).toHaveBeenCalled());
+      call.emit('data', {
+        outputs: [{ correlationId: 'a', classifications: [] }],
+      });
+      await result;
+
+      const [sent] = onSent.mock.calls[0];
+      expect(sent).toEqual([
+        expect.objectContaining({
+          correlationId: 'a',
+          deploymentId: 'test-deployment',
+        }),
+      ]);
+      const [, request] = onOutput.mock.calls[0];
+      expect(request.timings).toEqual({
+        queued: expect.any(Number),
+        preprocessed: expect.any(Number),
+        sent: expect.any(Number),
+        answered: expect.any(Number),
+      });
+    });
+
+    it('should not send an input whose correlationId is already pending', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      vi.spyOn(sdk as any, 'processImageInput').mockResolvedValue({
+        correlationId: 'a',
+        data: Buffer.from('test'),
+      });
+      await sdk.open();
+
+      const first = sdk.classify({
+        data: Buffer.from('test'),
+        format: 0,
+      } as any);
+      await vi.waitFor(() => expect(call.write).toHaveBeenCalledTimes(1));
+      await expect(
+        sdk.classify({ data: Buffer.from('test'), format: 0 } as any),
+      ).rejects.toBeInstanceOf(AthenaInputError);
+
+      expect(call.write).toHaveBeenCalledTimes(1);
+      call.emit('data', {
+        outputs: [{ correlationId: 'a', classifications: [] }],
+      });
+      await expect(first).resolves.toMatchObject({ correlationId: 'a' });
+    });
+
+    it('should wait for outstanding responses when draining on close', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      await sdk.open();
+
+      const pending = (sdk as any).pending;
+      const first = pending.track({
+        deploymentId: 'test-deployment',
+        input: { correlationId: 'a' },
+      });
+      pending.track({
+        deploymentId: 'test-deployment',
+        input: { correlationId: 'b' },
+      });
+
+      const closed = sdk.close({ drain: true, timeoutMs: 50 });
+      await expect(
+        sdk.classify({ data: Buffer.from('test'), format: 0 } as any),
+      ).rejects.toThrow('closing');
+      call.emit('data', {
+        outputs: [{ correlationId: 'a', classifications: [] }],
+      });
+
+      await expect(first).resolves.toMatchObject({ correlationId: 'a' });
+      await expect(closed).resolves.toEqual({
+        completed: ['a'],
+        abandoned: ['b'],
+      });
+      expect(call.end).toHaveBeenCalled();
+    });
+    it('should settle requests whose write is waiting for the stream to drain', async () => {
+      const blockedSdk = new ClassifierSdk({
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        requestTimeout: 100,
+        authentication: {
+          issuerUrl: 'https://test-issuer.com',
+          clientId: 'test-client-id',
+          clientSecret: 'test-client-secret',
+        },
+      });
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => false),
+        end: vi.fn(),
+      });
+      (blockedSdk as any).client.classify.mockReturnValue(call);
+      vi.spyOn(blockedSdk as any, 'processImageInput').mockImplementation(
+        async (request: any) => ({
+          correlationId: request.correlationId,
+          data: Buffer.from('test'),
+        }),
+      );
+      await blockedSdk.open();
+
+      await expect(
+        blockedSdk.classify({
+          correlationId: 'a',
+          data: Buffer.from('test'),
+        } as any),
+      ).rejects.toBeInstanceOf(AthenaTimeoutError);
+      const stuck = blockedSdk.classify({
+        correlationId: 'b',
+        data: Buffer.from('test'),
+      } as any);
+      stuck.catch(() => undefined);
+      await vi.waitFor(() => expect(call.write).toHaveBeenCalledTimes(2));
+      expect(call.listenerCount('drain')).toBe(2);
+
+      call.emit('end');
+
+      await expect(stuck).rejects.toThrow('stream closed');
+      expect(call.listenerCount('drain')).toBe(0);
+      expect(blockedSdk.state).toBe('closed');
+    });
+
+    it('should report requests that time out while draining as abandoned', async () => {
+      const call = Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+      });
+      (sdk as any).client.classify.mockReturnValue(call);
+      await sdk.open();
+
+      const pending = (sdk as any).pending;
+      const lost = pending.track(
+        { deploymentId: 'test-deployment', input: { correlationId: 'lost' } },
+        10,
+      );
+      pending.track({
+        deploymentId: 'test-deployment',
+        input: { correlationId: 'slow' },
+      });
+
+      const closed = sdk.close({ drain: true });
+      await expect(lost).rejects.toBeInstanceOf(AthenaTimeoutError);
+      call.emit('data', {
+        outputs: [{ correlationId: 'slow', classifications: [] }],
+      });
+
+      await expect(closed).resolves.toEqual({
+        completed: ['slow'],
+        abandoned: ['lost'],
+      });
+    });
   });
 
   describe('error handling', () => {
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PendingRequests } from '../../src/pendingRequests.js';
+import {
+  AthenaClassificationError,
+  AthenaInputError,
+  AthenaTimeoutError,
+} from '../../src/errors.js';
+
+const input = (correlationId: string, deploymentId = 'test-deployment') => ({
+  deploymentId,
+  input: {
+    affiliate: 'test-affiliate',
+    correlationId,
+    data: Buffer.from('test'),
+    format: 0,
+    encoding: 1,
+    hashes: [],
+  } as any,
+});
+
+const output = (correlationId: string, error?: any) =>
+  ({ correlationId, classifications: [], error }) as any;
+
+describe('PendingRequests', () => {
+  let pending: PendingRequests;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pending = new PendingRequests();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve a request with its matching output', async () => {
+    const first = pending.track(input('a'));
+    const second = pending.track(input('b'));
+    expect(pending.size).toBe(2);
+
+    pending.settle({ outputs: [output('b'), output('a')] } as any);
+
+    await expect(first).resolves.toMatchObject({ correlationId: 'a' });
+    await expect(second).resolves.toMatchObject({ correlationId: 'b' });
+    expect(pending.size).toBe(0);
+  });
+
+  it('should reject a request whose output carries an error', async () => {
+    const request = pending.track(input('a'));
+
+    pending.settle({
+      outputs: [output('a', { code: 2, message: 'Image too large' })],
+    } as any);
+
+    await expect(request).rejects.toThrow('Image too large');
+    await expect(request).rejects.toBeInstanceOf(AthenaClassificationError);
+  });
+
+  it('should reject every pending request on a global error with no outputs', async () => {
+    const first = pending.track(input('a'));
+    const second = pending.track(input('b'));
+
+    pending.settle({
+      globalError: { code: 0, message: 'Deployment unavailable' },
+      outputs: [],
+    } as any);
+
+    await expect(first).rejects.toThrow('Deployment unavailable');
+    await expect(second).rejects.toThrow('Deployment unavailable');
+  });
+
+  it('should reject a request that times out', async () => {
+    const request = pending.track(input('a'), 1000);
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(request).rejects.toThrow('Timed out after 1000ms');
+    await expect(request).rejects.toBeInstanceOf(AthenaTimeoutError);
+    expect(pending.has('test-deployment', 'a')).toBe(false);
+  });
+
+  it('should reject a duplicate correlationId', async () => {
+    pending.track(input('a'));
+
+    await expect(pending.track(input('a'))).rejects.toThrow('already pending');
+    expect(pending.size).toBe(1);
+  });
+
+  it('should reject a correlationId pending on another deployment', async () => {
+    const first = pending.track(input('a', 'deployment-a'));
+
+    const second = pending.track(input('a', 'deployment-b'));
+    await expect(second).rejects.toBeInstanceOf(AthenaInputError);
+    await expect(second).rejects.toThrow(
+      'correlation IDs must be unique on the stream',
+    );
+    expect(pending.size).toBe(1);
+    expect(pending.isPending('a')).toBe(true);
+
+    pending.settle({ outputs: [output('a')] } as any);
+    await expect(first).resolves.toMatchObject({ correlationId: 'a' });
+    expect(pending.isPending('a')).toBe(false);
+  });
+
+  it('should reject a request only by its deployment and correlationId', async () => {
+    const request = pending.track(input('a', 'deployment-a'));
+
+    expect(pending.reject('deployment-b', 'a', new Error('write failed'))).toBe(
+      false,
+    );
+    expect(pending.reject('deployment-a', 'a', new Error('write failed'))).toBe(
+      true,
+    );
+    await expect(request).rejects.toThrow('write failed');
+  });
+
+  it('should reject all pending requests', async () => {
+    const request = pending.track(input('a'), 1000);
+
+    pending.rejectAll(new Error('stream closed'));
+
+    await expect(request).rejects.toThrow('stream closed');
+    expect(pending.size).toBe(0);
+  });
+
+  it('should record the deployment each request was sent to', () => {
+    pending.track(input('a', 'deployment-a'));
+    pending.track(input('b', 'deployment-b'));
+
+    expect(
+      pending.list().map(({ correlationId, deploymentId }) => ({
+        correlationId,
+        deploymentId,
+      })),
+    ).toEqual([
+      { correlationId: 'a', deploymentId: 'deployment-a' },
+      { correlationId: 'b', deploymentId: 'deployment-b' },
+    ]);
+  });
+
+  it('should resolve whenEmpty once every request has settled', async () => {
+    const onEmpty = vi.fn();
+    pending.track(input('a'));
+    pending.track(input('b'));
+    void pending.whenEmpty().then(onEmpty);
+
+    pending.settle({ outputs: [output('a')] } as any);
+    await Promise.resolve();
+    expect(onEmpty).not.toHaveBeenCalled();
+
+    pending.reject('test-deployment', 'b', new Error('stream closed'));
+    await vi.waitFor(() => expect(onEmpty).toHaveBeenCalled());
+  });
+
+  it('should notify the listener with what was sent and when', () => {
+    const listener = { output: vi.fn(), outputError: vi.fn() };
+    pending = new PendingRequests(listener);
+    pending.track({ ...input('a'), timings: { queued: 1, preprocessed: 2 } });
+    pending.track(input('b'));
+
+    pending.settle({
+      outputs: [output('a'), output('b', { code: 2, message: 'Bad image' })],
+    } as any);
+
+    expect(listener.output).toHaveBeenCalledWith(
+      expect.objectContaining({ correlationId: 'a' }),
+      expect.objectContaining({
+        correlationId: 'a',
+        deploymentId: 'test-deployment',
+        affiliate: 'test-affiliate',
+        timings: { queued: 1, preprocessed: 2, answered: Date.now() },
+      }),
+    );
+    expect(listener.output.mock.calls[0][1]).not.toHaveProperty('data');
+    expect(listener.outputError).toHaveBeenCalledWith(
+      expect.any(AthenaClassificationError),
+      expect.objectContaining({ correlationId: 'b' }),
+    );
+  });
+
+  it('should notify the listener of a global error and the requests it failed', async () => {
+    const listener = { globalError: vi.fn() };
+    pending = new PendingRequests(listener);
+    const request = pending.track(input('a'));
+
+    pending.settle({
+      globalError: { code: 0, message: 'Deployment unavailable' },
+      outputs: [],
+    } as any);
+
+    await expect(request).rejects.toBeInstanceOf(AthenaClassificationError);
+    expect(listener.globalError).toHaveBeenCalledWith(
+      expect.any(AthenaClassificationError),
+      [expect.objectContaining({ correlationId: 'a' })],
+    );
+  });
+
+  it('should ignore outputs with no pending request', () => {
+    expect(() =>
+      pending.settle({ outputs: [output('unknown')] } as any),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import {
+  AthenaClassificationError,
+  AthenaInputError,
+  ClassifierSdk,
+  type ClassifierSdkOptions,
+  ImageFormat,
+  ReplayTransport,
+  readRecording,
+} from '../../src/index.js';
+import {
+  FakeAthenaServer,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+  FakeOidcIssuer,
+} from '../../src/testing/index.js';
+
+describe('recording and replay', () => {
+  let image: Buffer;
+  let otherImage: Buffer;
+  const input = (correlationId: string) => ({
+    correlationId,
+    data: image,
+    resize: false as const,
+    format: ImageFormat.IMAGE_FORMAT_JPEG,
+  });
+  let dir: string;
+  let path: string;
+  let issuer: FakeOidcIssuer;
+  let server: FakeAthenaServer;
+
+  const sdkOptions = (): ClassifierSdkOptions => ({
+    deploymentId: 'test-deployment',
+    affiliate: 'test-affiliate',
+    grpcAddress: server.address,
+    credentials: { type: 'insecure' },
+    authentication: {
+      issuerUrl: issuer.issuerUrl,
+      clientId: defaultFakeClientId,
+      clientSecret: defaultFakeClientSecret,
+      allowInsecureRequests: true,
+    },
+  });
+
+  const recordSession = async (redactImages = false): Promise<void> => {
+    const sdk = new ClassifierSdk({
+      ...sdkOptions(),
+      record: { path, redactImages },
+    });
+    await sdk.open();
+    await sdk.classify(input('recorded'));
+    await sdk.listDeployments();
+    await sdk.close();
+  };
+
+  const createImage = (background: string): Promise<Buffer> =>
+    sharp({ create: { width: 448, height: 448, channels: 3, background } })
+      .jpeg()
+      .toBuffer();
+
+  beforeAll(async () => {
+    image = await createImage('green');
+    otherImage = await createImage('blue');
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-recording-'));
+    path = join(dir, 'session.jsonl');
+    issuer = new FakeOidcIssuer();
+    await issuer.start();
+    server = new FakeAthenaServer({
+      issuer,
+      deployments: [{ deploymentId: 'test-deployment' } as any],
+    });
+    await server.start();
+    server.respondTo('recorded', {
+      classifications: [{ label: 'safe', weight: 0.5 }],
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await issuer.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record requests, responses and statuses', async () => {
+    await recordSession();
+
+    // The classify status arrives once the server ends the call, which can
+    // be after close() resolves.
+    const messages = await vi.waitFor(async () => {
+      const recorded = await readRecording(path);
+      expect(recorded.map(({ method, type }) => `${method} ${type}`)).toEqual(
+        expect.arrayContaining([
+          'Classify request',
+          'Classify response',
+          'Classify status',
+          'ListDeployments request',
+          'ListDeployments response',
+          'ListDeployments status',
+        ]),
+      );
+      return recorded;
+    });
+    const request = messages.find(
+      (m) => m.method === 'Classify' && m.type === 'request',
+    );
+    expect(JSON.stringify(request?.message)).toContain(
+      image.toString('base64'),
+    );
+  });
+
+  it('should redact image data to hashes', async () => {
+    await recordSession(true);
+
+    const contents = await readFile(path, 'utf8');
+
+    expect(contents).not.toContain(image.toString('base64'));
+    expect(contents).toContain('hashes');
+  });
+
+  it('should replay recorded responses without a network', async () => {
+    await recordSession(true);
+    const options = sdkOptions();
+    await server.stop();
+
+    const sdk = new ClassifierSdk({
+      ...options,
+      replay: await ReplayTransport.fromFile(path),
+    });
+    await sdk.open();
+
+    const byCorrelationId = await sdk.classify(input('recorded'));
+    const byHash = await sdk.classify(input('new-id'));
+    const deployments = await sdk.listDeployments();
+    await sdk.close();
+
+    expect(byCorrelationId.classifications).toEqual([
+      { label: 'safe', weight: 0.5 },
+    ]);
+    expect(byHash.correlationId).toBe('new-id');
+    expect(byHash.classifications).toEqual([{ label: 'safe', weight: 0.5 }]);
+    expect(deployments).toEqual([
+      expect.objectContaining({ deploymentId: 'test-deployment' }),
+    ]);
+    expect(issuer.issuedTokens).toHaveLength(1);
+  });
+
+  it('should fail inputs with no recorded response', async () => {
+    const sdk = new ClassifierSdk({
+      ...sdkOptions(),
+      replay: new ReplayTransport([]),
+    });
+    await sdk.open();
+
+    await expect(
+      sdk.classify({ ...input('unknown'), data: otherImage }),
+    ).rejects.toBeInstanceOf(AthenaClassificationError);
+    await sdk.close();
+  });
+
+  it('should stop recording without failing calls if the file cannot be written', async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const sdk = new ClassifierSdk({
+      ...sdkOptions(),
+      logger,
+      record: { path: join(dir, 'missing', 'session.jsonl') },
+    });
+    await sdk.open();
+
+    const output = await sdk.classify(input('recorded'));
+    await sdk.listDeployments();
+    await sdk.close();
+
+    expect(output.classifications).toEqual([{ label: 'safe', weight: 0.5 }]);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to write recording; recording stopped',
+      expect.objectContaining({ path: join(dir, 'missing', 'session.jsonl') }),
+    );
+  });
+
+  it('should reject malformed recordings', async () => {
+    await writeFile(path, '{"call":1}\nnot json\n');
+
+    await expect(readRecording(path)).rejects.toBeInstanceOf(AthenaInputError);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import {
+  defaultRetryPolicy,
+  getRetryAfter,
+  withRetry,
+} from '../../src/retry.js';
+
+const policy = {
+  ...defaultRetryPolicy,
+  initialDelay: 1,
+  maxDelay: 1,
+  jitter: 0,
+};
+
+const serviceError = (code: grpc.status, metadata = new grpc.Metadata()) =>
+  Object.assign(new Error(`status ${code}`), { code, details: '', metadata });
+
+describe('retry', () => {
+  describe('withRetry', () => {
+    it('should retry retryable status codes until success', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(serviceError(grpc.status.UNAVAILABLE))
+        .mockRejectedValueOnce(serviceError(grpc.status.RESOURCE_EXHAUSTED))
+        .mockResolvedValue('done');
+
+      await expect(withRetry(operation, policy)).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(operation).toHaveBeenLastCalledWith(3);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValue(serviceError(grpc.status.INVALID_ARGUMENT));
+
+      await expect(withRetry(operation, policy)).rejects.toThrow('status 3');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop after maxAttempts', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValue(serviceError(grpc.status.UNAVAILABLE));
+
+      await expect(
+        withRetry(operation, { ...policy, maxAttempts: 2 }),
+      ).rejects.toThrow('status 14');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report each attempt to onAttempt', async () => {
+      const onAttempt = vi.fn();
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(serviceError(grpc.status.UNAVAILABLE))
+        .mockResolvedValue('done');
+
+      await withRetry(operation, { ...policy, onAttempt });
+
+      expect(onAttempt).toHaveBeenCalledTimes(2);
+      expect(onAttempt).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        error: expect.any(Error),
+        willRetry: true,
+        delay: 1,
+      });
+      expect(onAttempt).toHaveBeenNthCalledWith(2, {
+        attempt: 2,
+        willRetry: false,
+      });
+    });
+
+    it('should cap server-provided retry delays at maxDelay', async () => {
+      const onAttempt = vi.fn();
+      const metadata = new grpc.Metadata();
+      metadata.set('retry-after', '3600');
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(serviceError(grpc.status.UNAVAILABLE, metadata))
+        .mockResolvedValue('done');
+
+      await expect(
+        withRetry(operation, { ...policy, maxDelay: 5, onAttempt }),
+      ).resolves.toBe('done');
+      expect(onAttempt).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ willRetry: true, delay: 5 }),
+      );
+    });
+
+    it('should not retry once the signal has fired', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw serviceError(grpc.status.UNAVAILABLE);
+      });
+
+      await expect(
+        withRetry(operation, policy, controller.signal),
+      ).rejects.toThrow('status 14');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRetryAfter', () => {
+    it('should read retry-after in seconds', () => {
+      const metadata = new grpc.Metadata();
+      metadata.set('retry-after', '2');
+      expect(getRetryAfter(serviceError(14, metadata))).toBe(2000);
+    });
+
+    it('should read grpc-retry-pushback-ms in milliseconds', () => {
+      const metadata = new grpc.Metadata();
+      metadata.set('grpc-retry-pushback-ms', '150');
+      expect(getRetryAfter(serviceError(14, metadata))).toBe(150);
+    });
+
+    it('should return undefined when no delay is provided', () => {
+      expect(getRetryAfter(serviceError(14))).toBeUndefined();
+      expect(getRetryAfter(new Error('plain'))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import {
+  context,
+  propagation,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { Telemetry } from '../../src/telemetry.js';
+import {
+  AthenaClassificationError,
+  AthenaTransportError,
+} from '../../src/errors.js';
+
+describe('Telemetry', () => {
+  let spanExporter: InMemorySpanExporter;
+  let metricExporter: InMemoryMetricExporter;
+  let metricReader: PeriodicExportingMetricReader;
+  let telemetry: Telemetry;
+
+  const collectMetrics = async (): Promise<Map<string, any>> => {
+    await metricReader.forceFlush();
+    const metrics = new Map<string, any>();
+    for (const { scopeMetrics } of metricExporter.getMetrics()) {
+      for (const { metrics: scoped } of scopeMetrics) {
+        for (const metric of scoped) {
+          metrics.set(metric.descriptor.name, metric);
+        }
+      }
+    }
+    return metrics;
+  };
+
+  beforeEach(() => {
+    spanExporter = new InMemorySpanExporter();
+    metricExporter = new InMemoryMetricExporter(
+      AggregationTemporality.CUMULATIVE,
+    );
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: metricExporter,
+      exportIntervalMillis: 60000,
+    });
+
+    telemetry = new Telemetry({
+      tracerProvider: new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+      }),
+      meterProvider: new MeterProvider({ readers: [metricReader] }),
+    });
+  });
+
+  afterEach(async () => {
+    await metricReader.shutdown();
+    propagation.disable();
+    context.disable();
+  });
+
+  it('should do nothing when disabled', async () => {
+    const disabled = new Telemetry();
+
+    expect(disabled.enabled).toBe(false);
+    await expect(disabled.trace('span', {}, async () => 42)).resolves.toBe(42);
+    expect(disabled.startSpan('span', {})).toBeUndefined();
+  });
+
+  it('should record spans with attributes', async () => {
+    await telemetry.trace(
+      'athena.preprocess',
+      { 'athena.deployment_id': 'deployment', 'athena.correlation_id': 'a' },
+      async () => undefined,
+    );
+
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span.name).toBe('athena.preprocess');
+    expect(span.attributes).toEqual({
+      'athena.deployment_id': 'deployment',
+      'athena.correlation_id': 'a',
+    });
+  });
+
+  it('should record errors on spans', async () => {
+    await expect(
+      telemetry.trace('athena.token.fetch', {}, async () => {
+        throw new Error('issuer unavailable');
+      }),
+    ).rejects.toThrow('issuer unavailable');
+
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'issuer unavailable',
+    });
+    expect(span.events[0].name).toBe('exception');
+  });
+
+  it('should parent spans to an explicit parent', async () => {
+    const parent = telemetry.startSpan('athena.classify', {});
+    await telemetry.trace(
+      'athena.preprocess',
+      {},
+      async () => undefined,
+      parent,
+    );
+    telemetry.endSpan(parent);
+
+    const [child, finishedParent] = spanExporter.getFinishedSpans();
+    expect(child.parentSpanContext?.spanId).toBe(
+      finishedParent.spanContext().spanId,
+    );
+    expect(child.spanContext().traceId).toBe(
+      finishedParent.spanContext().traceId,
+    );
+  });
+
+  it('should propagate the trace context in gRPC metadata', async () => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    const metadata = new grpc.Metadata();
+
+    await telemetry.trace('athena.ListDeployments', {}, async (span) => {
+      telemetry.inject(metadata);
+      const [traceparent] = metadata.get('traceparent');
+      expect(traceparent).toContain(span.spanContext().traceId);
+    });
+  });
+
+  it('should not add metadata when disabled', () => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    const metadata = new grpc.Metadata();
+
+    new Telemetry().inject(metadata);
+
+    expect(metadata.get('traceparent')).toEqual([]);
+    expect(trace.getActiveSpan()).toBeUndefined();
+  });
+
+  it('should record latency, batch size and queue depth', async () => {
+    telemetry.recordDuration(25, { 'rpc.method': 'Classify' });
+    telemetry.recordBatchSize(4, { 'athena.deployment_id': 'deployment' });
+    telemetry.observeQueueDepth(() => 3);
+
+    const metrics = await collectMetrics();
+
+    const [duration] = metrics.get('athena.client.request.duration').dataPoints;
+    expect(duration.value).toMatchObject({ count: 1, sum: 25 });
+    expect(duration.attributes).toEqual({ 'rpc.method': 'Classify' });
+
+    const [batch] = metrics.get('athena.client.batch.size').dataPoints;
+    expect(batch.value).toMatchObject({ count: 1, sum: 4 });
+
+    const [depth] = metrics.get('athena.client.queue.depth').dataPoints;
+    expect(depth.value).toBe(3);
+  });
+
+  it('should count errors by error code', async () => {
+    const classificationError = new AthenaClassificationError('bad image', {
+      code: 2 as any,
+    });
+    telemetry.recordError(classificationError, { 'rpc.method': 'Classify' });
+    telemetry.recordError(classificationError, { 'rpc.method': 'Classify' });
+    telemetry.recordError(
+      new AthenaTransportError('unavailable', {
+        code: grpc.status.UNAVAILABLE,
+      }),
+      { 'rpc.method': 'ListDeployments' },
+    );
+
+    const metrics = await collectMetrics();
+    const points = metrics.get('athena.client.errors').dataPoints;
+
+    expect(points).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          value: 2,
+          attributes: {
+            'rpc.method': 'Classify',
+            'error.type': 'AthenaClassificationError',
+            'athena.error_code': 2,
+          },
+        }),
+        expect.objectContaining({
+          value: 1,
+          attributes: {
+            'rpc.method': 'ListDeployments',
+            'error.type': 'AthenaTransportError',
+            'rpc.grpc.status_code': grpc.status.UNAVAILABLE,
+          },
+        }),
+      ]),
+    );
+  });
+});
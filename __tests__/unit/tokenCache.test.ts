@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, stat, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  type CachedToken,
+  FileTokenCache,
+  MemoryTokenCache,
+  tokenCacheKey,
+} from '../../src/tokenCache.js';
+import { AuthenticationManager } from '../../src/authenticationManager.js';
+import { AthenaAuthError } from '../../src/errors.js';
+import {
+  FakeOidcIssuer,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+} from '../../src/testing/fakeOidcIssuer.js';
+
+const token: CachedToken = {
+  accessToken: 'cached-token',
+  tokenType: 'bearer',
+  expiresAt: new Date('2030-01-01T01:00:00Z'),
+  acquiredAt: new Date('2030-01-01T00:00:00Z'),
+};
+
+describe('tokenCacheKey', () => {
+  it('should differ by issuer, client, audience and scope', () => {
+    const base = {
+      issuerUrl: 'https://issuer.example.com/',
+      clientId: 'client',
+      audience: 'crisp-athena-live',
+    };
+    const keys = new Set([
+      tokenCacheKey(base),
+      tokenCacheKey({ ...base, issuerUrl: 'https://other.example.com/' }),
+      tokenCacheKey({ ...base, clientId: 'other' }),
+      tokenCacheKey({ ...base, audience: 'crisp-athena-qa' }),
+      tokenCacheKey({ ...base, scope: 'classify' }),
+    ]);
+
+    expect(keys.size).toBe(5);
+    expect(tokenCacheKey(base)).toBe(tokenCacheKey({ ...base }));
+    expect(tokenCacheKey(base)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('MemoryTokenCache', () => {
+  it('should store tokens by key', async () => {
+    const cache = new MemoryTokenCache();
+
+    await cache.set('a', token);
+
+    expect(await cache.get('a')).toEqual(token);
+    expect(await cache.get('b')).toBeUndefined();
+  });
+
+  it('should run lock holders for a key one at a time', async () => {
+    const cache = new MemoryTokenCache();
+    const events: string[] = [];
+    const hold = (name: string) =>
+      cache.withLock('a', async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([hold('first'), hold('second')]);
+
+    expect(events).toEqual([
+      'first start',
+      'first end',
+      'second start',
+      'second end',
+    ]);
+  });
+});
+
+describe('FileTokenCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should share tokens between instances through owner-only files', async () => {
+    await new FileTokenCache(dir).set('a', token);
+
+    expect(await new FileTokenCache(dir).get('a')).toEqual(token);
+    expect((await stat(join(dir, 'a.json'))).mode & 0o777).toBe(0o600);
+    expect(await readdir(dir)).toEqual(['a.json']);
+  });
+
+  it('should treat missing and invalid files as no token', async () => {
+    const cache = new FileTokenCache(join(dir, 'missing'));
+    await writeFile(join(dir, 'bad.json'), '{');
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await new FileTokenCache(dir).get('bad')).toBeUndefined();
+  });
+
+  it('should treat files without a token or valid dates as no token', async () => {
+    const cache = new FileTokenCache(dir);
+    const valid = {
+      accessToken: 'cached',
+      expiresAt: new Date(Date.now() + 3600000).toISOString(),
+      acquiredAt: new Date().toISOString(),
+    };
+    const files = {
+      empty: {},
+      null: null,
+      blank: { ...valid, accessToken: '' },
+      expiry: { ...valid, expiresAt: 'soon' },
+      acquired: { ...valid, acquiredAt: undefined },
+    };
+    for (const [key, contents] of Object.entries(files)) {
+      await writeFile(join(dir, `${key}.json`), JSON.stringify(contents));
+    }
+    await writeFile(join(dir, 'valid.json'), JSON.stringify(valid));
+
+    for (const key of Object.keys(files)) {
+      expect(await cache.get(key)).toBeUndefined();
+    }
+    expect(await cache.get('valid')).toMatchObject({ accessToken: 'cached' });
+  });
+
+  it('should hold the lock across instances', async () => {
+    const events: string[] = [];
+    const hold = (name: string) =>
+      new FileTokenCache(dir).withLock('a', async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([hold('first'), hold('second')]);
+
+    expect(events).toEqual([
+      'first start',
+      'first end',
+      'second start',
+      'second end',
+    ]);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should remove stale locks and time out on held ones', async () => {
+    const lockPath = join(dir, 'a.json.lock');
+    await writeFile(lockPath, '12345');
+
+    await expect(
+      new FileTokenCache(dir, { lockTimeout: 100 }).withLock(
+        'a',
+        async () => 'unreachable',
+      ),
+    ).rejects.toThrow(AthenaAuthError);
+
+    const old = new Date(Date.now() - 60000);
+    await utimes(lockPath, old, old);
+    expect(
+      await new FileTokenCache(dir).withLock('a', async () => 'locked'),
+    ).toBe('locked');
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe('AuthenticationManager with a token cache', () => {
+  let issuer: FakeOidcIssuer;
+  let dir: string;
+
+  beforeEach(async () => {
+    issuer = new FakeOidcIssuer();
+    await issuer.start();
+    dir = await mkdtemp(join(tmpdir(), 'athena-cache-'));
+  });
+
+  afterEach(async () => {
+    await issuer.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createManager = (
+    tokenCache: MemoryTokenCache | FileTokenCache,
+    scope?: string,
+  ) =>
+    new AuthenticationManager({
+      clientId: defaultFakeClientId,
+      clientSecret: defaultFakeClientSecret,
+      issuerUrl: issuer.issuerUrl,
+      allowInsecureRequests: true,
+      tokenCache,
+      ...(scope ? { scope } : {}),
+    });
+
+  it('should share one token between managers using the same memory cache', async () => {
+    const cache = new MemoryTokenCache();
+
+    const headers = await Promise.all([
+      createManager(cache).getAuthenticationHeader(),
+      createManager(cache).getAuthenticationHeader(),
+      createManager(cache).getAuthenticationHeader(),
+    ]);
+
+    expect(issuer.issuedTokens).toHaveLength(1);
+    expect(new Set(headers).size).toBe(1);
+  });
+
+  it('should share one token between managers using the same directory', async () => {
+    const first = await createManager(
+      new FileTokenCache(dir),
+    ).getAuthenticationHeader();
+    const second = createManager(new FileTokenCache(dir));
+
+    expect(await second.getAuthenticationHeader()).toBe(first);
+    expect(second.discovered).toBe(false);
+    expect(issuer.issuedTokens).toHaveLength(1);
+  });
+
+  it('should fetch separate tokens for different scopes', async () => {
+    const cache = new MemoryTokenCache();
+
+    await createManager(cache, 'read').getAuthenticationHeader();
+    await createManager(cache, 'write').getAuthenticationHeader();
+
+    expect(issuer.issuedTokens.map(({ scope }) => scope)).toEqual([
+      'read',
+      'write',
+    ]);
+  });
+
+  it('should fetch a new token once the cached one is due for refresh', async () => {
+    const cache = new MemoryTokenCache();
+    await createManager(cache).getAuthenticationHeader();
+    const key = tokenCacheKey({
+      issuerUrl: issuer.issuerUrl,
+      clientId: defaultFakeClientId,
+      audience: 'crisp-athena-live',
+    });
+    const cached = (await cache.get(key))!;
+    await cache.set(key, {
+      ...cached,
+      expiresAt: new Date(Date.now() + 1000),
+      acquiredAt: new Date(Date.now() - 3600000),
+    });
+
+    await createManager(cache).getAuthenticationHeader();
+
+    expect(issuer.issuedTokens).toHaveLength(2);
+    expect((await cache.get(key))?.accessToken).toBe(
+      issuer.issuedTokens[1].accessToken,
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { watch } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CallbackTokenProvider,
+  FileTokenProvider,
+  StaticTokenProvider,
+  formatAuthorization,
+  isTokenProvider,
+} from '../../src/tokenProvider.js';
+import { AthenaAuthError } from '../../src/errors.js';
+
+function jwt(payload: object): string {
+  const encode = (value: object): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(payload)}.`;
+}
+
+describe('isTokenProvider', () => {
+  it('should distinguish providers from authentication options', () => {
+    expect(isTokenProvider(new StaticTokenProvider('token'))).toBe(true);
+    expect(
+      isTokenProvider({
+        issuerUrl: 'https://issuer.example.com',
+        clientId: 'id',
+        clientSecret: 'secret',
+        scope: 'scope',
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('formatAuthorization', () => {
+  it('should default the scheme to Bearer', () => {
+    expect(formatAuthorization({ accessToken: 'abc' })).toBe('Bearer abc');
+    expect(formatAuthorization({ accessToken: 'abc', tokenType: 'DPoP' })).toBe(
+      'DPoP abc',
+    );
+  });
+});
+
+describe('StaticTokenProvider', () => {
+  it('should return the same token and read a JWT expiry', async () => {
+    const token = jwt({ exp: 2000000000 });
+    const provider = new StaticTokenProvider(token);
+
+    expect(await provider.getToken()).toEqual({
+      accessToken: token,
+      expiresAt: new Date(2000000000 * 1000),
+    });
+    expect(provider.peek()).toBe(await provider.getToken());
+  });
+
+  it('should leave the expiry of opaque tokens unknown', async () => {
+    const provider = new StaticTokenProvider('opaque');
+
+    expect((await provider.getToken()).expiresAt).toBeUndefined();
+  });
+});
+
+describe('CallbackTokenProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse tokens until within the refresh margin of expiry', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const callback = vi
+      .fn()
+      .mockResolvedValueOnce({ accessToken: 'a', expiresAt: new Date(120000) })
+      .mockResolvedValueOnce({ accessToken: 'b', expiresAt: new Date(240000) });
+    const provider = new CallbackTokenProvider(callback, {
+      refreshMargin: 30000,
+    });
+
+    expect((await provider.getToken()).accessToken).toBe('a');
+    vi.setSystemTime(80000);
+    expect((await provider.getToken()).accessToken).toBe('a');
+    vi.setSystemTime(95000);
+    expect((await provider.getToken()).accessToken).toBe('b');
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call the callback every time for tokens without an expiry', async () => {
+    const callback = vi.fn().mockResolvedValue('opaque');
+    const provider = new CallbackTokenProvider(callback);
+
+    await provider.getToken();
+    await provider.getToken();
+
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one callback invocation between concurrent callers', async () => {
+    let resolve!: (token: string) => void;
+    const callback = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+    const provider = new CallbackTokenProvider(callback);
+
+    const first = provider.getToken();
+    const second = provider.getToken();
+    resolve('shared');
+
+    expect((await first).accessToken).toBe('shared');
+    expect((await second).accessToken).toBe('shared');
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should propagate callback failures', async () => {
+    const provider = new CallbackTokenProvider(() =>
+      Promise.reject(new Error('broker unavailable')),
+    );
+
+    await expect(provider.getToken()).rejects.toThrow('broker unavailable');
+    expect(provider.peek()).toBeUndefined();
+  });
+});
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return { ...actual, watch: vi.fn(actual.watch) };
+});
+
+describe('FileTokenProvider', () => {
+  let dir: string | undefined;
+  let provider: FileTokenProvider | undefined;
+
+  afterEach(async () => {
+    provider?.stop();
+    provider = undefined;
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('should read the token from the file, ignoring whitespace', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const path = join(dir, 'token');
+    await writeFile(path, 'first\n');
+    provider = new FileTokenProvider(path, { tokenType: 'Bearer' });
+
+    expect(await provider.getToken()).toEqual({
+      accessToken: 'first',
+      tokenType: 'Bearer',
+      expiresAt: undefined,
+    });
+  });
+
+  it('should reload the token when the file changes', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const path = join(dir, 'token');
+    await writeFile(path, 'first');
+    provider = new FileTokenProvider(path);
+    await provider.getToken();
+
+    await writeFile(path, 'second');
+
+    await vi.waitFor(
+      async () =>
+        expect((await provider!.getToken()).accessToken).toBe('second'),
+      { timeout: 5000 },
+    );
+  });
+
+  it('should keep the current token if the file becomes empty', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const path = join(dir, 'token');
+    await writeFile(path, 'first');
+    const warn = vi.fn();
+    provider = new FileTokenProvider(path, {
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    });
+    await provider.getToken();
+
+    await writeFile(path, '');
+
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled(), { timeout: 5000 });
+    expect((await provider.getToken()).accessToken).toBe('first');
+  });
+
+  it('should throw AthenaAuthError if the file is missing or empty', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const empty = join(dir, 'empty');
+    await writeFile(empty, '  \n');
+
+    provider = new FileTokenProvider(join(dir, 'missing'));
+    await expect(provider.getToken()).rejects.toThrow(AthenaAuthError);
+    provider.stop();
+
+    provider = new FileTokenProvider(empty);
+    await expect(provider.getToken()).rejects.toThrow(/is empty/);
+  });
+
+  it('should throw AthenaAuthError if the directory is missing', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    provider = new FileTokenProvider(join(dir, 'missing', 'token'));
+
+    await expect(provider.getToken()).rejects.toThrow(
+      /Failed to read access token/,
+    );
+    await expect(provider.getToken()).rejects.toBeInstanceOf(AthenaAuthError);
+  });
+
+  it('should re-read the file on every use if it cannot be watched', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const path = join(dir, 'token');
+    await writeFile(path, 'first');
+    vi.mocked(watch).mockClear();
+    vi.mocked(watch).mockImplementationOnce(() => {
+      throw Object.assign(new Error('ENOSPC: System limit reached'), {
+        code: 'ENOSPC',
+      });
+    });
+    const warn = vi.fn();
+    provider = new FileTokenProvider(path, {
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    });
+
+    expect((await provider.getToken()).accessToken).toBe('first');
+    await writeFile(path, 'second');
+    expect((await provider.getToken()).accessToken).toBe('second');
+    await writeFile(path, '');
+    expect((await provider.getToken()).accessToken).toBe('second');
+
+    expect(watch).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Cannot watch access token file'),
+      expect.objectContaining({ error: 'ENOSPC: System limit reached' }),
+    );
+  });
+
+  it('should re-read the file on next use after the watcher fails', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'athena-token-'));
+    const path = join(dir, 'token');
+    await writeFile(path, 'first');
+    const warn = vi.fn();
+    provider = new FileTokenProvider(path, {
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    });
+    await provider.getToken();
+    const watcher = (provider as any).watcher;
+    const close = vi.spyOn(watcher, 'close');
+
+    watcher.emit('error', new Error('watch failed'));
+    await writeFile(path, 'second');
+
+    expect(close).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Stopped watching'),
+      expect.objectContaining({ error: 'watch failed' }),
+    );
+    expect((await provider.getToken()).accessToken).toBe('second');
+  });
+});
@@ -308,8 +308,13 @@ async function startServer() {
       });
 
       try {
-        await sdk.close();
-        console.log('✅ SDK closed');
+        const { completed, abandoned } = await sdk.close({
+          drain: true,
+          timeoutMs: 10000,
+        });
+        console.log(
+          `✅ SDK closed (${completed.length} completed, ${abandoned.length} abandoned)`,
+        );
 
       } catch (error) {
         console.error('❌ Error closing SDK:', error);
@@ -2,17 +2,9 @@ import { ClassifierSdk, ImageFormat, RequestEncoding } from '@crispthinking/athe
 import fs from 'fs';
 
 async function main() {
-  const sdk = new ClassifierSdk({
-    deploymentId: '',
-    affiliate: process.env.ATHENA_AFFILIATE,
-    grpcAddress: process.env.ATHENA_GRPC_ADDRESS || 'api.athena-risk-intelligence.com:443',
-    authentication: {
-      issuerUrl: 'https://crispthinking.auth0.com/',
-      clientId: process.env.ATHENA_CLIENT_ID || '<your client id>',
-      clientSecret: process.env.ATHENA_CLIENT_SECRET || '<a secure secret>',
-      audience: process.env.ATHENA_AUDIENCE || 'crisp-athena-live'
-    }
-  });
+  // Reads ATHENA_CLIENT_ID, ATHENA_CLIENT_SECRET, ATHENA_AFFILIATE and the
+  // optional ATHENA_* settings, failing fast on anything missing or mistyped.
+  const sdk = ClassifierSdk.fromEnv();
 
   try {
     // Send image for classification
@@ -1,12 +1,37 @@
 import {
+  allowInsecureRequests,
   clientCredentialsGrant,
+  type ClientAuth,
   Configuration,
   discovery,
   refreshTokenGrant,
   type TokenEndpointResponse,
 } from 'openid-client';
 import * as grpc from '@grpc/grpc-js';
-import { jwtDecode, type JwtPayload } from 'jwt-decode';
+import { abortable } from './callOptions.js';
+import {
+  AthenaAbortError,
+  AthenaAuthError,
+  AthenaError,
+  AthenaTimeoutError,
+} from './errors.js';
+import { Telemetry } from './telemetry.js';
+import { type Logger, silentLogger } from './logger.js';
+import {
+  type AccessToken,
+  type TokenProvider,
+  formatAuthorization,
+  jwtExpiry,
+} from './tokenProvider.js';
+import {
+  type ClientAuthenticationOptions,
+  createClientAuthentication,
+} from './clientAuthentication.js';
+import {
+  type CachedToken,
+  type TokenCache,
+  tokenCacheKey,
+} from './tokenCache.js';
 
 /**
  * Valid audience values for the Athena SDK.
@@ -28,6 +53,8 @@ export const VALID_AUDIENCES: readonly AthenaAudience[] = [
 /**
  * Type guard to validate and parse an audience string.
  * Returns the validated audience value or a default if invalid/undefined.
+ * Typos silently fall back to the default; environment profiles, which
+ * reject unknown audiences, are the stricter alternative.
  * @param value The string value to validate
  * @param defaultValue The default audience if value is invalid (default: 'crisp-athena-live')
  * @returns A valid AthenaAudience value
@@ -48,127 +75,551 @@ export function parseAudience(
 export type AuthenticationOptions = {
   /** OAuth client ID. */
   clientId: string;
-  /** OAuth client secret. */
-  clientSecret: string;
-  /** URL of the OAuth issuer (authorization server). */
-  issuerUrl: string;
-  /** Whether to automatically refresh the access token. */
+  /** OAuth client secret. Required unless clientAuthentication is private_key_jwt. */
+  clientSecret?: string;
+  /** How to authenticate the client to the token endpoint (default client_secret_basic). */
+  clientAuthentication?: ClientAuthenticationOptions;
+  /** URL of the OAuth issuer (authorization server). Defaults to the Crisp issuer. */
+  issuerUrl?: string;
+  /** Refresh the access token in the background shortly before it expires, so calls never wait for it (default false). */
   autoRefresh?: boolean;
+  /**
+   * Time (ms) before expiry at which the access token is refreshed, allowing for
+   * clock skew and calls in flight (default 60000). Capped at half the token's lifetime.
+   */
+  refreshMargin?: number;
   /** OAuth scope to request. */
   scope?: string;
   /** OAuth audience to request. */
   audience?: AthenaAudience;
+  /**
+   * Cache to share access tokens through, e.g. a MemoryTokenCache shared by SDK
+   * instances or a FileTokenCache shared by processes on the host. Tokens are
+   * cached per issuer, client ID, audience and scope.
+   */
+  tokenCache?: TokenCache;
+  /** Allow a plain HTTP issuer, e.g. a local fake issuer in tests. Never enable in production. */
+  allowInsecureRequests?: boolean;
+  /** Logger for token acquisition (default silent). Secrets and tokens are never logged. */
+  logger?: Logger;
 };
 
+/** Issuer used when none is configured. */
+export const defaultIssuerUrl = 'https://crispthinking.auth0.com/';
+
+/** Default time (ms) before expiry at which the access token is refreshed. */
+export const defaultRefreshMargin = 60000;
+
+/** Lifetime (ms) assumed for access tokens that carry no expiry. */
+const defaultTokenLifetime = 300000;
+
+/** Delay (ms) before retrying a failed background refresh. */
+const autoRefreshRetryDelay = 5000;
+
 /**
  * Manages OAuth authentication and token refresh for the Athena gRPC client.
  * Handles acquiring and refreshing access tokens using the OAuth client credentials flow.
  */
-export class AuthenticationManager {
+export class AuthenticationManager implements TokenProvider {
   private token?: TokenEndpointResponse | undefined;
-  private decoded?: JwtPayload;
-  private options: AuthenticationOptions;
+  private options: AuthenticationOptions & { issuerUrl: string };
   private discovery?: Configuration;
+  private clientAuth: ClientAuth | undefined;
   private tokenExpiration?: Date;
+  private tokenLifetime = defaultTokenLifetime;
+  private refreshing: Promise<void> | null = null;
+  private refreshTimer?: NodeJS.Timeout | undefined;
+  private onTokenRefreshed: (expiresAt: Date | undefined) => void;
+  private telemetry: Telemetry;
+  private logger: Logger;
 
   /**
    * Creates a new AuthenticationManager with the provided options.
    * @param options Configuration options for authentication.
+   * @param onTokenRefreshed Called whenever a new access token is acquired,
+   * with its expiry if known.
+   * @param telemetry Optional instrumentation to trace token fetches with.
+   * @throws AthenaInputError if the client secret or private key is missing or invalid.
    */
-  constructor(options: AuthenticationOptions) {
-    this.options = options;
+  constructor(
+    options: AuthenticationOptions,
+    onTokenRefreshed: (expiresAt: Date | undefined) => void = () => undefined,
+    telemetry: Telemetry = new Telemetry(),
+  ) {
+    this.options = {
+      ...options,
+      issuerUrl: options.issuerUrl || defaultIssuerUrl,
+    };
+    this.onTokenRefreshed = onTokenRefreshed;
+    this.telemetry = telemetry;
+    this.logger = options.logger ?? silentLogger;
 
-    if (!this.options.issuerUrl) {
-      this.options.issuerUrl = 'https://crispthinking.auth0.com/';
-    }
+    this.clientAuth = createClientAuthentication(
+      options.clientAuthentication,
+      options.clientSecret,
+    );
   }
 
   /**
    * Appends the current authentication header to the provided gRPC metadata object.
    * @param metadata The gRPC metadata to which the Authorization header will be added.
+   * @param signal Optional AbortSignal that stops waiting for the token.
    */
   public async appendAuthorizationToMetadata(
     metadata: grpc.Metadata,
+    signal?: AbortSignal,
   ): Promise<void> {
-    metadata.set('Authorization', await this.getAuthenticationHeader());
+    metadata.set('Authorization', await this.getAuthenticationHeader(signal));
   }
 
   /**
    * Returns the current authentication header (e.g., "Bearer <token>"), refreshing the token if necessary.
+   * @param signal Optional AbortSignal that stops waiting for the token.
+   * @throws AthenaTimeoutError or AthenaAbortError if the signal fires first.
+   * @throws AthenaAuthError if no access token can be acquired.
    * @returns The authentication header string.
    */
-  public async getAuthenticationHeader(): Promise<string> {
-    await this.maybeRefreshAccessToken();
-    if (this.token === undefined) {
-      throw new Error('No access token available');
+  public async getAuthenticationHeader(signal?: AbortSignal): Promise<string> {
+    return formatAuthorization(await this.getToken(signal));
+  }
+
+  /**
+   * Returns the current access token, refreshing it if necessary.
+   * @param signal Optional AbortSignal that stops waiting for the token.
+   * @throws AthenaTimeoutError or AthenaAbortError if the signal fires first.
+   * @throws AthenaAuthError if no access token can be acquired.
+   * @returns The access token with its type and expiry.
+   */
+  public async getToken(signal?: AbortSignal): Promise<AccessToken> {
+    try {
+      await abortable(this.maybeRefreshAccessToken(), signal);
+    } catch (err) {
+      if (
+        err instanceof AthenaTimeoutError ||
+        err instanceof AthenaAbortError
+      ) {
+        throw err;
+      }
+      throw new AthenaAuthError(
+        `Failed to acquire an access token from ${this.options.issuerUrl}`,
+        // Network failures surface from fetch as TypeErrors and are transient.
+        {
+          cause: err,
+          retryable:
+            err instanceof TypeError ||
+            (err instanceof AthenaError && err.retryable),
+        },
+      );
     }
 
-    return `${this.token.token_type} ${this.token.access_token}`;
+    const token = this.peek();
+    if (token === undefined) {
+      throw new AthenaAuthError('No access token available');
+    }
+    return token;
   }
 
   /**
-   * Handles token refresh logic, including discovery, refresh, and re-acquisition as needed.
-   * Refreshes the access token if expired or missing.
+   * Returns the current access token without refreshing it, if there is one.
+   */
+  public peek(): AccessToken | undefined {
+    return (
+      this.token && {
+        accessToken: this.token.access_token,
+        tokenType: this.token.token_type,
+        expiresAt: this.tokenExpiration,
+      }
+    );
+  }
+
+  /**
+   * The OIDC issuer URL.
+   */
+  public get issuerUrl(): string {
+    return this.options.issuerUrl;
+  }
+
+  /**
+   * Whether the OIDC server metadata has been discovered.
+   */
+  public get discovered(): boolean {
+    return this.discovery !== undefined;
+  }
+
+  /**
+   * Expiry of the current access token, if one has been acquired and its
+   * expiry is known.
+   */
+  public get tokenExpiresAt(): Date | undefined {
+    return this.token ? this.tokenExpiration : undefined;
+  }
+
+  /**
+   * Whether an access token has been acquired.
+   */
+  public get hasToken(): boolean {
+    return this.token !== undefined;
+  }
+
+  /**
+   * Fetches the OIDC server metadata afresh, replacing any cached copy.
+   * @param signal Optional AbortSignal that stops waiting for the issuer.
+   * @throws AthenaTimeoutError or AthenaAbortError if the signal fires first.
+   * @throws AthenaAuthError if the issuer cannot be reached or is invalid.
+   */
+  public async rediscover(signal?: AbortSignal): Promise<void> {
+    try {
+      this.discovery = await abortable(this.discover(), signal);
+    } catch (err) {
+      if (
+        err instanceof AthenaTimeoutError ||
+        err instanceof AthenaAbortError
+      ) {
+        throw err;
+      }
+      throw new AthenaAuthError(
+        `Failed to discover OIDC server metadata from ${this.options.issuerUrl}`,
+        { cause: err, retryable: err instanceof TypeError },
+      );
+    }
+  }
+
+  /**
+   * Stops refreshing the access token in the background. Background refresh
+   * resumes the next time a token is acquired.
+   */
+  public stop(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  /**
+   * Whether the access token is missing, or due for refresh: within the
+   * refresh margin of its expiry, capped at half its lifetime.
+   * @private
+   */
+  private needsRefresh(): boolean {
+    if (!this.token || !this.tokenExpiration) {
+      return true;
+    }
+    return Date.now() >= this.refreshDueAt(this.tokenExpiration);
+  }
+
+  /**
+   * When a token expiring at the given time becomes due for refresh (ms since epoch).
+   * @private
+   */
+  private refreshDueAt(
+    expiration: Date,
+    lifetime: number = this.tokenLifetime,
+  ): number {
+    const margin = Math.min(
+      this.options.refreshMargin ?? defaultRefreshMargin,
+      lifetime / 2,
+    );
+    return expiration.getTime() - margin;
+  }
+
+  /**
+   * Refreshes the access token if it is missing or due for refresh, tracing
+   * the fetch. Concurrent callers share a single fetch. If an early refresh
+   * fails while the current token is still valid, the current token is kept.
    * @private
    */
   private async maybeRefreshAccessToken(): Promise<void> {
-    if (this.discovery === undefined) {
-      // Discover the OIDC server metadata
-      console.info('Discovering OIDC server metadata from for: ', {
-        clientId: this.options.clientId,
-        issuerUrl: this.options.issuerUrl,
+    if (!this.needsRefresh()) {
+      return;
+    }
+
+    this.refreshing ??= this.telemetry
+      .trace(
+        'athena.token.fetch',
+        { 'athena.issuer_url': this.options.issuerUrl },
+        () => this.refreshAccessToken(),
+      )
+      .finally(() => {
+        this.refreshing = null;
       });
-      this.discovery = await discovery(
-        new URL(this.options.issuerUrl),
-        this.options.clientId,
-        this.options.clientSecret,
-      );
+
+    try {
+      await this.refreshing;
+    } catch (err) {
+      if (
+        this.token &&
+        this.tokenExpiration &&
+        this.tokenExpiration > new Date()
+      ) {
+        this.logger.warn(
+          'Refreshing the access token early failed, using the current token',
+          {
+            error: err instanceof Error ? err.message : String(err),
+            expiresAt: this.tokenExpiration.toISOString(),
+          },
+        );
+        return;
+      }
+      throw err;
     }
+  }
 
-    if (
-      this.tokenExpiration &&
-      this.tokenExpiration < new Date() &&
-      this.token
-    ) {
-      if (this.token.refresh_token === undefined) {
-        this.token = undefined;
-      } else {
-        // Attempt to refresh token.
-        try {
-          this.token = await refreshTokenGrant(
-            this.discovery,
-            this.token.refresh_token,
-          );
-          this.decoded = jwtDecode(this.token.access_token);
-
-          // Calculate expiry date of jwt
-          if (this.decoded && this.decoded.exp) {
-            this.tokenExpiration = new Date(this.decoded.exp * 1000);
-          }
-        } catch {
-          this.token = undefined;
-        }
+  /**
+   * Handles token refresh logic, including discovery, refresh, and re-acquisition as needed.
+   * The current token is only replaced once a new one has been acquired.
+   *
+   * With a token cache, a cached token that is not yet due for refresh is used
+   * instead. Otherwise the token is fetched holding the cache's lock, after
+   * checking again for one fetched by whoever held the lock before.
+   * @private
+   */
+  private async refreshAccessToken(): Promise<void> {
+    const cache = this.options.tokenCache;
+    if (!cache) {
+      this.useToken(await this.requestToken());
+      return;
+    }
+
+    const key = tokenCacheKey({
+      issuerUrl: this.options.issuerUrl,
+      clientId: this.options.clientId,
+      audience: this.audience,
+      scope: this.options.scope,
+    });
+    if (await this.useCachedToken(cache, key)) {
+      return;
+    }
+
+    await cache.withLock(key, async () => {
+      if (await this.useCachedToken(cache, key)) {
+        return;
+      }
+      this.useToken(await this.requestToken());
+      try {
+        await cache.set(key, this.toCachedToken());
+      } catch (err) {
+        this.logger.warn('Failed to cache access token', {
+          error: err instanceof Error ? err.message : String(err),
+        });
       }
+    });
+  }
+
+  /**
+   * Adopts the cached token for a key if there is one not yet due for refresh.
+   * Cached tokens carry no refresh token.
+   * @returns Whether a cached token was adopted.
+   * @private
+   */
+  private async useCachedToken(
+    cache: TokenCache,
+    key: string,
+  ): Promise<boolean> {
+    const cached = await cache.get(key);
+    if (!cached) {
+      return false;
+    }
+    const lifetime = cached.expiresAt.getTime() - cached.acquiredAt.getTime();
+    if (Date.now() >= this.refreshDueAt(cached.expiresAt, lifetime)) {
+      return false;
+    }
+
+    this.token = {
+      access_token: cached.accessToken,
+      token_type: (
+        cached.tokenType ?? 'bearer'
+      ).toLowerCase() as Lowercase<string>,
+    };
+    this.tokenExpiration = cached.expiresAt;
+    this.tokenLifetime = lifetime;
+    this.logger.debug('Using cached access token', {
+      expiresAt: cached.expiresAt.toISOString(),
+    });
+    this.onTokenRefreshed(this.tokenExpiration);
+    this.scheduleRefresh();
+    return true;
+  }
+
+  /**
+   * The current token in the form kept by a token cache.
+   * @private
+   */
+  private toCachedToken(): CachedToken {
+    const expiresAt = this.tokenExpiration ?? new Date();
+    return {
+      accessToken: this.token?.access_token ?? '',
+      tokenType: this.token?.token_type,
+      expiresAt,
+      acquiredAt: new Date(expiresAt.getTime() - this.tokenLifetime),
+    };
+  }
+
+  /**
+   * The audience to request, defaulting to the live environment.
+   * @private
+   */
+  private get audience(): AthenaAudience {
+    return this.options.audience || 'crisp-athena-live';
+  }
+
+  /**
+   * Acquires a new token from the issuer: by the refresh token grant if there
+   * is a refresh token, falling back to the client credentials grant.
+   * @private
+   */
+  private async requestToken(): Promise<TokenEndpointResponse> {
+    if (this.discovery === undefined) {
+      this.discovery = await this.discover();
     }
 
-    if (this.token === undefined) {
+    let token: TokenEndpointResponse | undefined;
+    if (this.token?.refresh_token !== undefined) {
+      // Attempt to refresh token.
+      this.logger.debug('Refreshing access token using refresh token', {
+        expiresAt: this.tokenExpiration?.toISOString(),
+      });
+      try {
+        token = await refreshTokenGrant(
+          this.discovery,
+          this.token.refresh_token,
+        );
+      } catch (err) {
+        this.logger.warn(
+          'Refreshing the access token failed, requesting a new one',
+          { error: err instanceof Error ? err.message : String(err) },
+        );
+      }
+    }
+
+    if (token === undefined) {
+      this.logger.debug('Requesting access token', {
+        clientId: this.options.clientId,
+        audience: this.audience,
+        scope: this.options.scope,
+      });
       if (this.options.scope) {
-        this.token = await clientCredentialsGrant(this.discovery, {
-          audience: this.options.audience || 'crisp-athena-live',
+        token = await clientCredentialsGrant(this.discovery, {
+          audience: this.audience,
           scope: this.options.scope,
         });
       } else {
-        this.token = await clientCredentialsGrant(this.discovery, {
-          audience: this.options.audience || 'crisp-athena-live',
+        token = await clientCredentialsGrant(this.discovery, {
+          audience: this.audience,
         });
       }
+    }
+    return token;
+  }
 
-      this.decoded = jwtDecode(this.token.access_token);
+  /**
+   * Adopts a newly acquired token.
+   * @private
+   */
+  private useToken(token: TokenEndpointResponse): void {
+    this.token = token;
+    this.tokenExpiration = this.expiryOf(token);
+    this.tokenLifetime = Math.max(
+      this.tokenExpiration.getTime() - Date.now(),
+      0,
+    );
+    this.logger.debug('Acquired access token', {
+      expiresAt: this.tokenExpiration.toISOString(),
+    });
+    this.onTokenRefreshed(this.tokenExpiration);
+    this.scheduleRefresh();
+  }
 
-      // Calculate expiry date of jwt
-      if (this.decoded && this.decoded.exp) {
-        this.tokenExpiration = new Date(this.decoded.exp * 1000);
-      }
+  /**
+   * Works out when a token expires: from its exp claim, else the token
+   * response's expires_in, else after a default lifetime so that it is never
+   * cached indefinitely.
+   * @private
+   */
+  private expiryOf(token: TokenEndpointResponse): Date {
+    const expiry = jwtExpiry(token.access_token);
+    if (expiry) {
+      return expiry;
+    }
+    if (token.expires_in !== undefined) {
+      return new Date(Date.now() + token.expires_in * 1000);
+    }
+
+    this.logger.warn(
+      'Access token has no expiry, assuming a default lifetime',
+      {
+        lifetimeMs: defaultTokenLifetime,
+      },
+    );
+    return new Date(Date.now() + defaultTokenLifetime);
+  }
+
+  /**
+   * With autoRefresh, schedules the next background refresh for when the
+   * token becomes due. The timer does not keep the process alive.
+   * @param delayMs Optional delay (ms) to use instead, e.g. to retry a failure.
+   * @private
+   */
+  private scheduleRefresh(delayMs?: number): void {
+    const expiration = this.tokenExpiration;
+    if (!this.options.autoRefresh || !expiration) {
+      return;
+    }
+
+    const delay = delayMs ?? this.refreshDueAt(expiration) - Date.now();
+
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(
+      () => {
+        this.refreshTimer = undefined;
+        this.maybeRefreshAccessToken().then(
+          () => {
+            // An early failure keeps the current token; try again shortly.
+            if (this.needsRefresh() && this.token) {
+              this.scheduleRefresh(autoRefreshRetryDelay);
+            }
+          },
+          (err) =>
+            this.logger.warn('Background access token refresh failed', {
+              error: err instanceof Error ? err.message : String(err),
+            }),
+        );
+      },
+      Math.max(delay, 0),
+    );
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Discovers the OIDC server metadata.
+   * @private
+   */
+  private discover(): Promise<Configuration> {
+    this.logger.debug('Discovering OIDC server metadata', {
+      clientId: this.options.clientId,
+      issuerUrl: this.options.issuerUrl,
+      clientAuthentication:
+        this.options.clientAuthentication?.type ?? 'client_secret_basic',
+    });
+    const server = new URL(this.options.issuerUrl);
+    const options = this.options.allowInsecureRequests
+      ? { execute: [allowInsecureRequests] }
+      : undefined;
+
+    if (this.clientAuth) {
+      return discovery(
+        server,
+        this.options.clientId,
+        undefined,
+        this.clientAuth,
+        options,
+      );
     }
+    return options
+      ? discovery(
+          server,
+          this.options.clientId,
+          this.options.clientSecret,
+          undefined,
+          options,
+        )
+      : discovery(server, this.options.clientId, this.options.clientSecret);
   }
 }
@@ -0,0 +1,47 @@
+/**
+ * Options for computing exponential backoff delays.
+ * @property initialDelay Delay (ms) before the first retry.
+ * @property maxDelay Upper bound (ms) for any single delay.
+ * @property multiplier Factor the delay grows by after each attempt.
+ * @property jitter Fraction (0-1) of the delay to randomise, to spread out
+ * clients that failed at the same time.
+ */
+export type BackoffOptions = {
+  initialDelay: number;
+  maxDelay: number;
+  multiplier: number;
+  jitter: number;
+};
+
+export const defaultBackoffOptions: BackoffOptions = {
+  initialDelay: 500,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Computes the delay before a retry attempt using exponential backoff with jitter.
+ * @param attempt The 1-based attempt number.
+ * @param options Backoff options.
+ * @returns The delay in milliseconds.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = defaultBackoffOptions,
+): number {
+  const base = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.multiplier, attempt - 1),
+  );
+  const jitter = base * options.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(Math.min(options.maxDelay, base + jitter)));
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ * @param ms The delay in milliseconds.
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
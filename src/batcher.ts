@@ -0,0 +1,118 @@
+/**
+ * Options for combining separately submitted items into batches.
+ * @property maxBatchSize Maximum number of items per batch (default 16).
+ * @property maxBatchBytes Maximum total size (bytes) of the items in a batch
+ * (default 3 MiB, below gRPC's 4 MiB default message limit). An item larger
+ * than this is sent in a batch of its own.
+ * @property maxDelayMs Maximum time (ms) an item waits for a batch to fill (default 10).
+ */
+export type BatchOptions = {
+  maxBatchSize?: number;
+  maxBatchBytes?: number;
+  maxDelayMs?: number;
+};
+
+export const defaultBatchOptions: Required<BatchOptions> = {
+  maxBatchSize: 16,
+  maxBatchBytes: 3 * 1024 * 1024,
+  maxDelayMs: 10,
+};
+
+type BatchEntry<T> = {
+  item: T;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+};
+
+/**
+ * Collects items submitted one at a time and hands them to a flush callback
+ * in batches, bounded by count, total size and delay. Each submitter's
+ * promise settles on its own once the batch containing its item is flushed.
+ */
+export class MicroBatcher<T> {
+  private entries: BatchEntry<T>[] = [];
+  private bytes = 0;
+  private timer?: NodeJS.Timeout | undefined;
+  private options: Required<BatchOptions>;
+  private flushBatch: (items: T[]) => Promise<void>;
+
+  /**
+   * Creates a new MicroBatcher.
+   * @param flushBatch Callback that sends a batch of items.
+   * @param options Batching limits.
+   */
+  constructor(
+    flushBatch: (items: T[]) => Promise<void>,
+    options: BatchOptions = {},
+  ) {
+    this.flushBatch = flushBatch;
+    this.options = { ...defaultBatchOptions, ...options };
+  }
+
+  /**
+   * Number of items waiting to be flushed.
+   */
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Adds an item to the current batch.
+   * @param item The item to send.
+   * @param bytes The item's size in bytes.
+   * @returns Promise that resolves once the batch containing the item has been
+   * flushed, or rejects if flushing it failed.
+   */
+  public add(item: T, bytes: number): Promise<void> {
+    if (
+      this.entries.length > 0 &&
+      this.bytes + bytes > this.options.maxBatchBytes
+    ) {
+      void this.flush();
+    }
+
+    const promise = new Promise<void>((resolve, reject) => {
+      this.entries.push({ item, resolve, reject });
+    });
+    this.bytes += bytes;
+
+    if (
+      this.entries.length >= this.options.maxBatchSize ||
+      this.bytes >= this.options.maxBatchBytes
+    ) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.maxDelayMs);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Flushes the current batch immediately.
+   * @returns Promise that resolves once the batch has been handed off.
+   */
+  public async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const entries = this.entries;
+    this.entries = [];
+    this.bytes = 0;
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.flushBatch(entries.map((entry) => entry.item));
+      for (const entry of entries) {
+        entry.resolve();
+      }
+    } catch (err) {
+      for (const entry of entries) {
+        entry.reject(err);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type { Deadline } from '@grpc/grpc-js';
+import { AthenaAbortError, AthenaTimeoutError } from './errors.js';
+
+/**
+ * Per-call options accepted by ClassifierSdk methods.
+ * @property timeoutMs Optional time (ms) the whole call, including token
+ * acquisition and image preprocessing, may take before it is rejected.
+ * @property signal Optional AbortSignal that cancels the call.
+ */
+export type CallOptions = {
+  timeoutMs?: number | undefined;
+  signal?: AbortSignal | undefined;
+};
+
+/**
+ * Combines the caller's signal and timeout into a single AbortSignal.
+ * @param options The per-call options.
+ * @returns A signal that aborts on either, or undefined if neither is set.
+ */
+export function createCallSignal(
+  options: CallOptions = {},
+): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+
+  if (options.signal) {
+    signals.push(options.signal);
+  }
+
+  if (options.timeoutMs !== undefined) {
+    signals.push(AbortSignal.timeout(options.timeoutMs));
+  }
+
+  return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+}
+
+/**
+ * Computes the gRPC deadline for a call starting now.
+ * @param options The per-call options.
+ * @returns The deadline, or Infinity when no timeout is set.
+ */
+export function createDeadline(options: CallOptions = {}): Deadline {
+  return options.timeoutMs !== undefined
+    ? Date.now() + options.timeoutMs
+    : Infinity;
+}
+
+/**
+ * Converts the reason an AbortSignal fired into a typed SDK error.
+ * @param signal The aborted signal.
+ * @returns AthenaTimeoutError for timeouts, AthenaAbortError otherwise.
+ */
+export function toAbortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+
+  if (
+    reason instanceof AthenaTimeoutError ||
+    reason instanceof AthenaAbortError
+  ) {
+    return reason;
+  }
+
+  if (reason instanceof Error && reason.name === 'TimeoutError') {
+    return new AthenaTimeoutError(undefined, { cause: reason });
+  }
+
+  return new AthenaAbortError(undefined, { cause: reason });
+}
+
+/**
+ * Throws the typed abort error if the signal has already fired.
+ * @param signal The signal to check, if any.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Races a promise against an AbortSignal.
+ * The underlying work is not cancelled; the caller simply stops waiting for it.
+ * @param promise The promise to wait for.
+ * @param signal The signal that ends the wait early, if any.
+ * @returns The promise's result, or a rejection with the typed abort error.
+ */
+export async function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  throwIfAborted(signal);
+
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = (): void => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
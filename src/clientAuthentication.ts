@@ -0,0 +1,238 @@
+import { createPrivateKey, type KeyObject } from 'crypto';
+import { type ClientAuth, ClientSecretJwt, PrivateKeyJwt } from 'openid-client';
+import { AthenaInputError } from './errors.js';
+
+/**
+ * JWS algorithms accepted for private_key_jwt client assertions.
+ */
+export type PrivateKeyJwtAlgorithm =
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'EdDSA';
+
+/**
+ * Client authentication with the client secret in an HTTP Basic
+ * Authorization header. The default.
+ */
+export type ClientSecretBasicOptions = {
+  type: 'client_secret_basic';
+};
+
+/**
+ * Client authentication with a client assertion JWT signed (HS256) with the
+ * client secret, so that the secret itself is never sent.
+ */
+export type ClientSecretJwtOptions = {
+  type: 'client_secret_jwt';
+};
+
+/**
+ * Client authentication with a client assertion JWT signed with the client's
+ * private key. The issuer holds only the public key.
+ * @property privateKey The private key: PEM (PKCS#8, PKCS#1 or SEC1) or a JWK.
+ * @property keyId Key ID to put in the assertion header, so the issuer can pick
+ * the public key. Defaults to the JWK's kid, if any.
+ * @property algorithm The signing algorithm. Defaults to the JWK's alg, else
+ * RS256 for RSA keys, PS256 for RSA-PSS keys, ES256/ES384/ES512 for EC keys by
+ * curve, and EdDSA for Ed25519 keys.
+ */
+export type PrivateKeyJwtOptions = {
+  type: 'private_key_jwt';
+  privateKey: string | Buffer | (JsonWebKey & { kid?: string });
+  keyId?: string | undefined;
+  algorithm?: PrivateKeyJwtAlgorithm | undefined;
+};
+
+/**
+ * How the SDK authenticates its OAuth client to the issuer's token endpoint.
+ */
+export type ClientAuthenticationOptions =
+  | ClientSecretBasicOptions
+  | ClientSecretJwtOptions
+  | PrivateKeyJwtOptions;
+
+/** Minimum RSA modulus length (bits) accepted for signing. */
+const minimumRsaModulusLength = 2048;
+
+/** Minimum client secret length (bytes) for HS256, per RFC 7518 section 3.2. */
+const minimumJwtSecretLength = 32;
+
+const ecAlgorithms: Record<string, PrivateKeyJwtAlgorithm> = {
+  prime256v1: 'ES256',
+  secp384r1: 'ES384',
+  secp521r1: 'ES512',
+};
+
+const webCryptoCurves: Record<string, string> = {
+  ES256: 'P-256',
+  ES384: 'P-384',
+  ES512: 'P-521',
+};
+
+/**
+ * Builds the openid-client authentication for the token endpoint, validating
+ * the key material up front so that misconfiguration fails at construction
+ * rather than on the first token fetch.
+ * @param options The client authentication options, if any.
+ * @param clientSecret The client secret, if any.
+ * @throws AthenaInputError if the secret is missing or too short, or the
+ * private key is invalid, not private, too weak or unsuited to the algorithm.
+ * @returns The authentication to pass to discovery, or undefined for the
+ * default client_secret_basic.
+ */
+export function createClientAuthentication(
+  options: ClientAuthenticationOptions | undefined,
+  clientSecret: string | undefined,
+): ClientAuth | undefined {
+  switch (options?.type ?? 'client_secret_basic') {
+    case 'client_secret_basic':
+      if (clientSecret === undefined) {
+        throw new AthenaInputError(
+          'clientSecret is required for client_secret_basic authentication',
+        );
+      }
+      return undefined;
+    case 'client_secret_jwt':
+      if (!clientSecret) {
+        throw new AthenaInputError(
+          'clientSecret is required for client_secret_jwt authentication',
+        );
+      }
+      if (Buffer.byteLength(clientSecret) < minimumJwtSecretLength) {
+        throw new AthenaInputError(
+          `clientSecret must be at least ${minimumJwtSecretLength} bytes for client_secret_jwt authentication`,
+        );
+      }
+      return ClientSecretJwt(clientSecret);
+    case 'private_key_jwt':
+      return createPrivateKeyJwt(options as PrivateKeyJwtOptions);
+  }
+}
+
+function createPrivateKeyJwt(options: PrivateKeyJwtOptions): ClientAuth {
+  const { privateKey } = options;
+  const jwk =
+    typeof privateKey === 'string' || Buffer.isBuffer(privateKey)
+      ? undefined
+      : privateKey;
+
+  let key: KeyObject;
+  try {
+    key = jwk
+      ? createPrivateKey({ key: jwk, format: 'jwk' })
+      : createPrivateKey(privateKey as string | Buffer);
+  } catch (err) {
+    throw new AthenaInputError(
+      'privateKey is not a valid PEM or JWK private key',
+      { cause: err },
+    );
+  }
+
+  const algorithm =
+    options.algorithm ??
+    (jwk?.alg as PrivateKeyJwtAlgorithm | undefined) ??
+    defaultAlgorithm(key);
+  const importParams = importParamsFor(key, algorithm);
+  const kid = options.keyId ?? jwk?.kid;
+
+  // The CryptoKey is imported once, on first use, as importing is async.
+  let auth: Promise<ClientAuth> | undefined;
+  return async (as, client, body, headers) => {
+    auth ??= crypto.subtle
+      .importKey(
+        'pkcs8',
+        key.export({ format: 'der', type: 'pkcs8' }),
+        importParams,
+        false,
+        ['sign'],
+      )
+      .then((cryptoKey) => PrivateKeyJwt({ key: cryptoKey, kid }));
+    // openid-client awaits client authentication, though typed as void.
+    await (
+      await auth
+    )(as, client, body, headers);
+  };
+}
+
+function defaultAlgorithm(key: KeyObject): PrivateKeyJwtAlgorithm {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return 'RS256';
+    case 'rsa-pss':
+      return 'PS256';
+    case 'ec':
+      return (
+        ecAlgorithms[key.asymmetricKeyDetails?.namedCurve ?? ''] ?? 'ES256'
+      );
+    case 'ed25519':
+      return 'EdDSA';
+    default:
+      throw new AthenaInputError(
+        `privateKey type ${key.asymmetricKeyType} is not supported for private_key_jwt authentication`,
+      );
+  }
+}
+
+/**
+ * Checks that the key suits the algorithm and works out the WebCrypto
+ * parameters to import it with.
+ * @throws AthenaInputError if the key and algorithm do not match, or an RSA
+ * key is shorter than 2048 bits.
+ */
+function importParamsFor(
+  key: KeyObject,
+  algorithm: PrivateKeyJwtAlgorithm,
+): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  const mismatch = (): AthenaInputError =>
+    new AthenaInputError(
+      `privateKey of type ${key.asymmetricKeyType} cannot sign with ${algorithm}`,
+    );
+  const hash = `SHA-${algorithm.slice(2)}`;
+
+  switch (algorithm.slice(0, 2)) {
+    case 'RS':
+    case 'PS': {
+      // RSA-PSS keys are restricted to PSS signatures.
+      if (
+        key.asymmetricKeyType !== 'rsa' &&
+        !(key.asymmetricKeyType === 'rsa-pss' && algorithm.startsWith('PS'))
+      ) {
+        throw mismatch();
+      }
+      const modulusLength = key.asymmetricKeyDetails?.modulusLength ?? 0;
+      if (modulusLength < minimumRsaModulusLength) {
+        throw new AthenaInputError(
+          `privateKey must be at least ${minimumRsaModulusLength} bits, got ${modulusLength}`,
+        );
+      }
+      return {
+        name: algorithm.startsWith('RS') ? 'RSASSA-PKCS1-v1_5' : 'RSA-PSS',
+        hash,
+      };
+    }
+    case 'ES':
+      if (
+        key.asymmetricKeyType !== 'ec' ||
+        ecAlgorithms[key.asymmetricKeyDetails?.namedCurve ?? ''] !== algorithm
+      ) {
+        throw mismatch();
+      }
+      return { name: 'ECDSA', namedCurve: webCryptoCurves[algorithm] };
+    case 'Ed':
+      if (key.asymmetricKeyType !== 'ed25519') {
+        throw mismatch();
+      }
+      return { name: 'Ed25519' };
+    default:
+      throw new AthenaInputError(
+        `Unsupported private_key_jwt algorithm ${algorithm}`,
+      );
+  }
+}
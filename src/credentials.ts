@@ -0,0 +1,76 @@
+import * as grpc from '@grpc/grpc-js';
+import { AthenaInputError } from './errors.js';
+
+/**
+ * Plaintext channel with no transport security, e.g. for a local test server.
+ * The access token is still sent with every call.
+ */
+export type InsecureCredentialsOptions = {
+  type: 'insecure';
+};
+
+/**
+ * TLS channel, optionally trusting a custom CA and presenting a client certificate.
+ * @property rootCerts PEM-encoded root certificates to trust instead of the system defaults.
+ * @property privateKey PEM-encoded client private key for mutual TLS.
+ * @property certChain PEM-encoded client certificate chain for mutual TLS.
+ */
+export type SslCredentialsOptions = {
+  type: 'ssl';
+  rootCerts?: Buffer | string;
+  privateKey?: Buffer | string;
+  certChain?: Buffer | string;
+};
+
+/**
+ * Channel credentials accepted by the ClassifierSdk: one of the settings above,
+ * or a fully constructed grpc.ChannelCredentials instance.
+ */
+export type ChannelCredentialsOptions =
+  | InsecureCredentialsOptions
+  | SslCredentialsOptions
+  | grpc.ChannelCredentials;
+
+/**
+ * Builds gRPC channel credentials from the SDK credentials options.
+ * Defaults to TLS with the system root certificates.
+ * @param options The credentials options, if any.
+ * @throws AthenaInputError if only one of privateKey and certChain is provided.
+ * @returns The channel credentials to create the client with.
+ */
+export function createChannelCredentials(
+  options?: ChannelCredentialsOptions,
+): grpc.ChannelCredentials {
+  if (!options) {
+    return grpc.credentials.createSsl();
+  }
+
+  if (!('type' in options)) {
+    return options;
+  }
+
+  if (options.type === 'insecure') {
+    return grpc.credentials.createInsecure();
+  }
+
+  const { rootCerts, privateKey, certChain } = options;
+
+  if ((privateKey === undefined) !== (certChain === undefined)) {
+    throw new AthenaInputError(
+      'Both privateKey and certChain are required for mutual TLS',
+    );
+  }
+
+  return grpc.credentials.createSsl(
+    toBuffer(rootCerts),
+    toBuffer(privateKey),
+    toBuffer(certChain),
+  );
+}
+
+function toBuffer(value: Buffer | string | undefined): Buffer | null {
+  if (value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' ? Buffer.from(value) : value;
+}
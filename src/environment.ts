@@ -0,0 +1,338 @@
+import {
+  type AthenaAudience,
+  type AuthenticationOptions,
+  VALID_AUDIENCES,
+  defaultIssuerUrl,
+} from './authenticationManager.js';
+import { AthenaInputError } from './errors.js';
+
+/**
+ * Named Athena environments. Each of live, dev and qa ties an audience to its
+ * issuer and gRPC address; custom has no defaults, so all three must be given.
+ */
+export type AthenaEnvironment = 'live' | 'dev' | 'qa' | 'custom';
+
+/**
+ * List of valid environment names.
+ */
+export const ATHENA_ENVIRONMENTS: readonly AthenaEnvironment[] = [
+  'live',
+  'dev',
+  'qa',
+  'custom',
+] as const;
+
+/** gRPC address of the live Athena service. */
+export const defaultGrpcAddress = 'api.athena-risk-intelligence.com:443';
+
+/**
+ * Settings of a named environment.
+ * @property audience The OAuth audience its tokens are issued for.
+ * @property issuerUrl The OAuth issuer.
+ * @property grpcAddress The gRPC address of its Athena service, where
+ * published. Where it is not, the address must be configured.
+ */
+export type EnvironmentProfile = {
+  audience: AthenaAudience;
+  issuerUrl: string;
+  grpcAddress?: string | undefined;
+};
+
+/**
+ * Profiles of the named environments.
+ */
+export const environmentProfiles: Readonly<
+  Record<Exclude<AthenaEnvironment, 'custom'>, EnvironmentProfile>
+> = {
+  live: {
+    audience: 'crisp-athena-live',
+    issuerUrl: defaultIssuerUrl,
+    grpcAddress: defaultGrpcAddress,
+  },
+  dev: { audience: 'crisp-athena-dev', issuerUrl: defaultIssuerUrl },
+  qa: { audience: 'crisp-athena-qa', issuerUrl: defaultIssuerUrl },
+};
+
+/**
+ * Settings configured alongside an environment, checked against its profile.
+ * @property audience The OAuth audience.
+ * @property issuerUrl The OAuth issuer.
+ * @property grpcAddress The gRPC address, as host:port.
+ * @property allowInsecureRequests Whether a plain HTTP issuer is allowed.
+ * @property withAuthentication Whether the audience and issuer apply, i.e. the
+ * SDK acquires its own tokens rather than using a TokenProvider (default true).
+ */
+export type EnvironmentSettings = {
+  audience?: string | undefined;
+  issuerUrl?: string | undefined;
+  grpcAddress?: string | undefined;
+  allowInsecureRequests?: boolean | undefined;
+  withAuthentication?: boolean | undefined;
+};
+
+/**
+ * The settings of an environment after applying its profile.
+ */
+export type ResolvedEnvironment = {
+  environment: AthenaEnvironment;
+  audience: AthenaAudience;
+  issuerUrl: string;
+  grpcAddress: string;
+};
+
+type SettingNames = Record<
+  'environment' | 'audience' | 'issuerUrl' | 'grpcAddress',
+  string
+>;
+
+const optionNames: SettingNames = {
+  environment: 'environment',
+  audience: 'authentication.audience',
+  issuerUrl: 'authentication.issuerUrl',
+  grpcAddress: 'grpcAddress',
+};
+
+const variableNames: SettingNames = {
+  environment: 'ATHENA_ENVIRONMENT',
+  audience: 'ATHENA_AUDIENCE',
+  issuerUrl: 'ATHENA_ISSUER_URL',
+  grpcAddress: 'ATHENA_GRPC_ADDRESS',
+};
+
+/** host:port, with the host optionally a bracketed IPv6 address. */
+const grpcAddressPattern = /^(\[[0-9a-fA-F:.]+\]|[^\s:[\]/]+):(\d{1,5})$/;
+
+/**
+ * Applies an environment's profile to the configured settings, recording
+ * every problem found rather than stopping at the first.
+ * @returns The resolved settings, or undefined if there were problems.
+ */
+function checkEnvironment(
+  environment: string,
+  settings: EnvironmentSettings,
+  names: SettingNames,
+  problems: string[],
+): ResolvedEnvironment | undefined {
+  const before = problems.length;
+  if (!ATHENA_ENVIRONMENTS.includes(environment as AthenaEnvironment)) {
+    problems.push(
+      `${names.environment} must be one of ${ATHENA_ENVIRONMENTS.join(', ')}, got "${environment}"`,
+    );
+    return undefined;
+  }
+  const name = environment as AthenaEnvironment;
+  const profile: Partial<EnvironmentProfile> =
+    name === 'custom' ? {} : environmentProfiles[name];
+
+  const resolve = (
+    setting: 'audience' | 'issuerUrl' | 'grpcAddress',
+  ): string | undefined => {
+    const value = settings[setting];
+    const expected = profile[setting];
+    if (value === undefined) {
+      if (expected === undefined) {
+        problems.push(
+          `${names[setting]} is required for the ${name} environment`,
+        );
+      }
+      return expected;
+    }
+    if (
+      expected !== undefined &&
+      normalize(setting, value) !== normalize(setting, expected)
+    ) {
+      problems.push(
+        `${names[setting]} "${value}" does not match the ${name} environment ("${expected}"); set ${names.environment} to custom to use it`,
+      );
+    }
+    return value;
+  };
+
+  const withAuthentication = settings.withAuthentication ?? true;
+  let audience: string | undefined;
+  if (
+    withAuthentication &&
+    settings.audience !== undefined &&
+    !VALID_AUDIENCES.includes(settings.audience as AthenaAudience)
+  ) {
+    problems.push(
+      `${names.audience} must be one of ${VALID_AUDIENCES.join(', ')}, got "${settings.audience}"`,
+    );
+  } else if (withAuthentication) {
+    audience = resolve('audience');
+  }
+
+  const issuerUrl = withAuthentication ? resolve('issuerUrl') : undefined;
+  if (issuerUrl !== undefined) {
+    const protocol = URL.canParse(issuerUrl)
+      ? new URL(issuerUrl).protocol
+      : undefined;
+    if (
+      protocol !== 'https:' &&
+      !(protocol === 'http:' && settings.allowInsecureRequests)
+    ) {
+      problems.push(
+        `${names.issuerUrl} must be an https URL, got "${issuerUrl}"`,
+      );
+    }
+  }
+
+  const grpcAddress = resolve('grpcAddress');
+  if (grpcAddress !== undefined) {
+    const port = Number(grpcAddressPattern.exec(grpcAddress)?.[2] ?? 0);
+    if (port < 1 || port > 65535) {
+      problems.push(
+        `${names.grpcAddress} must be host:port, got "${grpcAddress}"`,
+      );
+    }
+  }
+
+  if (problems.length > before) {
+    return undefined;
+  }
+  return {
+    environment: name,
+    audience: (audience ??
+      profile.audience ??
+      'crisp-athena-live') as AthenaAudience,
+    issuerUrl: issuerUrl ?? profile.issuerUrl ?? defaultIssuerUrl,
+    grpcAddress: grpcAddress as string,
+  };
+}
+
+function normalize(setting: string, value: string): string {
+  return setting === 'issuerUrl' && URL.canParse(value)
+    ? new URL(value).href
+    : value;
+}
+
+function invalidConfiguration(
+  what: string,
+  problems: string[],
+): AthenaInputError {
+  return new AthenaInputError(
+    `Invalid ${what}:\n${problems.map((problem) => `- ${problem}`).join('\n')}`,
+  );
+}
+
+/**
+ * Applies an environment's profile to the audience, issuer and gRPC address
+ * configured alongside it. Settings the profile does not fix are required;
+ * settings it does fix may be given only if they match.
+ * @param environment The environment.
+ * @param settings The configured settings, if any.
+ * @throws AthenaInputError listing every problem found, e.g. an unknown
+ * audience, or a QA audience paired with the live environment.
+ * @returns The audience, issuer and gRPC address to use.
+ */
+export function resolveEnvironment(
+  environment: AthenaEnvironment,
+  settings: EnvironmentSettings = {},
+): ResolvedEnvironment {
+  const problems: string[] = [];
+  const resolved = checkEnvironment(
+    environment,
+    settings,
+    optionNames,
+    problems,
+  );
+  if (!resolved) {
+    throw invalidConfiguration(`${environment} environment`, problems);
+  }
+  return resolved;
+}
+
+/**
+ * Environment variables read by readEnvironment().
+ */
+type EnvironmentVariable =
+  | 'ATHENA_ENVIRONMENT'
+  | 'ATHENA_AUDIENCE'
+  | 'ATHENA_ISSUER_URL'
+  | 'ATHENA_GRPC_ADDRESS'
+  | 'ATHENA_CLIENT_ID'
+  | 'ATHENA_CLIENT_SECRET'
+  | 'ATHENA_AFFILIATE'
+  | 'ATHENA_DEPLOYMENT_ID';
+
+/**
+ * SDK configuration read from environment variables.
+ * @property environment The environment, from ATHENA_ENVIRONMENT (default live).
+ * @property grpcAddress The gRPC address.
+ * @property affiliate The affiliate.
+ * @property deploymentId The deployment ID (default empty).
+ * @property authentication The client credentials, audience and issuer.
+ */
+export type EnvironmentConfig = {
+  environment: AthenaEnvironment;
+  grpcAddress: string;
+  affiliate: string;
+  deploymentId: string;
+  authentication: AuthenticationOptions & {
+    clientSecret: string;
+    audience: AthenaAudience;
+    issuerUrl: string;
+  };
+};
+
+/**
+ * Reads the SDK configuration from ATHENA_* environment variables:
+ * ATHENA_ENVIRONMENT (live, dev, qa or custom; default live), ATHENA_AUDIENCE,
+ * ATHENA_ISSUER_URL and ATHENA_GRPC_ADDRESS (checked against the environment's
+ * profile), ATHENA_CLIENT_ID, ATHENA_CLIENT_SECRET and ATHENA_AFFILIATE
+ * (required), and ATHENA_DEPLOYMENT_ID. Values are trimmed; empty values count
+ * as unset. Other variables are ignored.
+ * @param env The environment variables (default process.env).
+ * @throws AthenaInputError listing every problem found.
+ * @returns The configuration.
+ */
+export function readEnvironment(
+  env: Record<string, string | undefined> = process.env,
+): EnvironmentConfig {
+  const problems: string[] = [];
+  const read = (name: EnvironmentVariable): string | undefined =>
+    env[name]?.trim() || undefined;
+  const readRequired = (name: EnvironmentVariable): string | undefined => {
+    const value = read(name);
+    if (value === undefined) {
+      problems.push(`${name} is required`);
+    }
+    return value;
+  };
+
+  const clientId = readRequired('ATHENA_CLIENT_ID');
+  const clientSecret = readRequired('ATHENA_CLIENT_SECRET');
+  const affiliate = readRequired('ATHENA_AFFILIATE');
+  const resolved = checkEnvironment(
+    read('ATHENA_ENVIRONMENT') ?? 'live',
+    {
+      audience: read('ATHENA_AUDIENCE'),
+      issuerUrl: read('ATHENA_ISSUER_URL'),
+      grpcAddress: read('ATHENA_GRPC_ADDRESS'),
+    },
+    variableNames,
+    problems,
+  );
+
+  if (
+    !resolved ||
+    problems.length > 0 ||
+    !clientId ||
+    !clientSecret ||
+    !affiliate
+  ) {
+    throw invalidConfiguration('Athena environment variables', problems);
+  }
+  return {
+    environment: resolved.environment,
+    grpcAddress: resolved.grpcAddress,
+    affiliate,
+    deploymentId: read('ATHENA_DEPLOYMENT_ID') ?? '',
+    authentication: {
+      clientId,
+      clientSecret,
+      audience: resolved.audience,
+      issuerUrl: resolved.issuerUrl,
+    },
+  };
+}
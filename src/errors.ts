@@ -0,0 +1,253 @@
+import * as grpc from '@grpc/grpc-js';
+import type {
+  ClassificationError,
+  ErrorCode,
+} from './generated/athena/models.js';
+
+/**
+ * Options accepted by every Athena error.
+ * @property cause The original error, if any.
+ * @property correlationId The correlation ID of the affected request, if known.
+ * @property retryable Whether retrying the operation may succeed.
+ */
+export type AthenaErrorOptions = {
+  cause?: unknown;
+  correlationId?: string | undefined;
+  retryable?: boolean;
+};
+
+/**
+ * Base class for every error raised by the SDK.
+ */
+export class AthenaError extends Error {
+  /** The correlation ID of the affected request, if known. */
+  public readonly correlationId?: string | undefined;
+  /** Whether retrying the operation may succeed. */
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: AthenaErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AthenaError';
+    this.correlationId = options.correlationId;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Raised when an access token cannot be acquired, or the service rejects it.
+ * @property code The gRPC status code, when raised by a call.
+ */
+export class AthenaAuthError extends AthenaError {
+  public readonly code?: grpc.status | undefined;
+
+  constructor(
+    message: string,
+    options: AthenaErrorOptions & { code?: grpc.status } = {},
+  ) {
+    super(message, options);
+    this.name = 'AthenaAuthError';
+    this.code = options.code;
+  }
+}
+
+/**
+ * Raised when a gRPC call or the classify stream fails.
+ * @property code The gRPC status code, when the failure came from a call.
+ * @property details The status details sent by the server.
+ * @property metadata The trailing metadata sent by the server.
+ */
+export class AthenaTransportError extends AthenaError {
+  public readonly code?: grpc.status | undefined;
+  public readonly details?: string | undefined;
+  public readonly metadata?: grpc.Metadata | undefined;
+
+  constructor(
+    message: string,
+    options: AthenaErrorOptions & {
+      code?: grpc.status;
+      details?: string;
+      metadata?: grpc.Metadata;
+    } = {},
+  ) {
+    super(message, options);
+    this.name = 'AthenaTransportError';
+    this.code = options.code;
+    this.details = options.details;
+    this.metadata = options.metadata;
+  }
+}
+
+/**
+ * Raised when an image or option supplied to the SDK is invalid.
+ */
+export class AthenaInputError extends AthenaError {
+  constructor(message: string, options: AthenaErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AthenaInputError';
+  }
+}
+
+/**
+ * Raised when the service reports a classification error, either for one
+ * output or as the global error of a response.
+ * @property code The Athena error code.
+ * @property details Additional details sent by the service.
+ */
+export class AthenaClassificationError extends AthenaError {
+  public readonly code: ErrorCode;
+  public readonly details?: string | undefined;
+
+  constructor(
+    message: string,
+    options: AthenaErrorOptions & { code: ErrorCode; details?: string },
+  ) {
+    super(message, options);
+    this.name = 'AthenaClassificationError';
+    this.code = options.code;
+    this.details = options.details;
+  }
+
+  /**
+   * Creates an error from a ClassificationError received from the service.
+   * @param error The classification error.
+   * @param correlationId The correlation ID of the affected output, if any.
+   */
+  public static fromClassificationError(
+    error: ClassificationError,
+    correlationId?: string,
+  ): AthenaClassificationError {
+    const prefix = correlationId
+      ? `Classification failed for correlationId ${correlationId}`
+      : 'Classification failed';
+
+    return new AthenaClassificationError(`${prefix}: ${error.message}`, {
+      code: error.code,
+      details: (error as { details?: string }).details,
+      correlationId,
+    });
+  }
+}
+
+/**
+ * Raised when an SDK call does not complete within its timeout.
+ */
+export class AthenaTimeoutError extends AthenaError {
+  constructor(
+    message = 'The operation timed out',
+    options: AthenaErrorOptions = {},
+  ) {
+    super(message, { retryable: true, ...options });
+    this.name = 'AthenaTimeoutError';
+  }
+}
+
+/**
+ * Raised when an SDK call is cancelled through its AbortSignal.
+ */
+export class AthenaAbortError extends AthenaError {
+  constructor(
+    message = 'The operation was aborted',
+    options: AthenaErrorOptions = {},
+  ) {
+    super(message, options);
+    this.name = 'AthenaAbortError';
+  }
+}
+
+/**
+ * Raised when a request cannot be queued because the SDK's queue is full.
+ */
+export class AthenaQueueFullError extends AthenaError {
+  constructor(
+    message = 'The request queue is full',
+    options: AthenaErrorOptions = {},
+  ) {
+    super(message, { retryable: true, ...options });
+    this.name = 'AthenaQueueFullError';
+  }
+}
+
+/**
+ * gRPC status codes that indicate a transient failure.
+ */
+export const RETRYABLE_STATUS_CODES: readonly grpc.status[] = [
+  grpc.status.UNAVAILABLE,
+  grpc.status.DEADLINE_EXCEEDED,
+  grpc.status.RESOURCE_EXHAUSTED,
+  grpc.status.ABORTED,
+];
+
+/**
+ * Maps an error returned by a gRPC call to the matching Athena error.
+ * @param err The grpc-js service error.
+ * @param correlationId The correlation ID of the affected request, if known.
+ */
+export function fromServiceError(
+  err: grpc.ServiceError,
+  correlationId?: string,
+): AthenaError {
+  const options = {
+    cause: err,
+    correlationId,
+    code: err.code,
+    retryable: RETRYABLE_STATUS_CODES.includes(err.code),
+  };
+
+  switch (err.code) {
+    case grpc.status.UNAUTHENTICATED:
+    case grpc.status.PERMISSION_DENIED:
+      return new AthenaAuthError(err.message, options);
+    case grpc.status.INVALID_ARGUMENT:
+      return new AthenaInputError(err.message, options);
+    default:
+      return new AthenaTransportError(err.message, {
+        ...options,
+        details: err.details,
+        metadata: err.metadata,
+      });
+  }
+}
+
+/**
+ * Converts any error raised by or received from the SDK into an AthenaError:
+ * Athena errors are returned as-is, gRPC errors are mapped by status code,
+ * ClassificationError objects from responses become AthenaClassificationError,
+ * and anything else is wrapped with the original as its cause.
+ * @param err The error to convert.
+ */
+export function toAthenaError(err: unknown): AthenaError {
+  if (err instanceof AthenaError) {
+    return err;
+  }
+
+  if (isServiceError(err)) {
+    return fromServiceError(err);
+  }
+
+  if (
+    err &&
+    typeof err === 'object' &&
+    !(err instanceof Error) &&
+    typeof (err as ClassificationError).code === 'number' &&
+    typeof (err as ClassificationError).message === 'string'
+  ) {
+    return AthenaClassificationError.fromClassificationError(
+      err as ClassificationError,
+    );
+  }
+
+  if (err instanceof Error) {
+    return new AthenaError(err.message, { cause: err });
+  }
+
+  return new AthenaError(String(err), { cause: err });
+}
+
+function isServiceError(err: unknown): err is grpc.ServiceError {
+  return (
+    err instanceof Error &&
+    typeof (err as Partial<grpc.ServiceError>).code === 'number' &&
+    'details' in err &&
+    'metadata' in err
+  );
+}
@@ -0,0 +1,159 @@
+import { throwIfAborted, toAbortError } from './callOptions.js';
+import { AthenaQueueFullError } from './errors.js';
+
+/**
+ * Limits on streamed classification work.
+ * @property maxInFlight Maximum number of images being preprocessed, sent or
+ * awaiting a response at once (default unlimited).
+ * @property maxQueued Maximum number of images waiting for an in-flight slot
+ * before further calls are rejected with AthenaQueueFullError (default unlimited).
+ */
+export type FlowControlOptions = {
+  maxInFlight?: number;
+  maxQueued?: number;
+};
+
+/**
+ * Snapshot of the flow controller's counters.
+ * @property inFlight Number of images currently holding an in-flight slot.
+ * @property queued Number of images waiting for an in-flight slot.
+ */
+export type FlowControlStats = {
+  inFlight: number;
+  queued: number;
+};
+
+type Waiter = {
+  count: number;
+  resolve: () => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Bounds the number of images in flight, queueing callers that would exceed
+ * the limit in FIFO order and rejecting them once the queue is full.
+ */
+export class FlowController {
+  private inFlightCount = 0;
+  private waiters: Waiter[] = [];
+  private saturated = false;
+  private maxInFlight: number;
+  private maxQueued: number;
+  private onChange: (saturated: boolean, stats: FlowControlStats) => void;
+
+  /**
+   * Creates a new FlowController.
+   * @param options The in-flight and queue limits.
+   * @param onChange Called when the controller becomes saturated (callers must
+   * wait or are rejected) and when it is no longer saturated.
+   */
+  constructor(
+    options: FlowControlOptions = {},
+    onChange: (saturated: boolean, stats: FlowControlStats) => void = () =>
+      undefined,
+  ) {
+    this.maxInFlight = options.maxInFlight ?? Infinity;
+    this.maxQueued = options.maxQueued ?? Infinity;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Number of images currently holding an in-flight slot.
+   */
+  public get inFlight(): number {
+    return this.inFlightCount;
+  }
+
+  /**
+   * Number of images waiting for an in-flight slot.
+   */
+  public get queued(): number {
+    return this.waiters.reduce((total, waiter) => total + waiter.count, 0);
+  }
+
+  /**
+   * Waits for in-flight slots for a number of images.
+   * A request for more slots than maxInFlight proceeds once nothing else is in flight.
+   * @param count The number of images.
+   * @param signal Optional AbortSignal that stops waiting.
+   * @throws AthenaQueueFullError if the queue cannot take the images.
+   */
+  public async acquire(count: number, signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+
+    if (this.waiters.length === 0 && this.canStart(count)) {
+      this.inFlightCount += count;
+      this.updateSaturation();
+      return;
+    }
+
+    if (this.queued + count > this.maxQueued) {
+      this.updateSaturation();
+      throw new AthenaQueueFullError(
+        `Cannot queue ${count} image(s): ${this.queued} already queued (maxQueued ${this.maxQueued})`,
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { count, resolve, reject };
+      const onAbort = (): void => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(toAbortError(signal));
+        this.grant();
+      };
+
+      waiter.resolve = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.setSaturated(true);
+    });
+  }
+
+  /**
+   * Releases in-flight slots and admits queued callers that now fit.
+   * @param count The number of slots to release.
+   */
+  public release(count: number = 1): void {
+    this.inFlightCount = Math.max(0, this.inFlightCount - count);
+    this.grant();
+  }
+
+  /**
+   * Current counters.
+   */
+  public stats(): FlowControlStats {
+    return { inFlight: this.inFlight, queued: this.queued };
+  }
+
+  private canStart(count: number): boolean {
+    return (
+      this.inFlightCount + count <= this.maxInFlight || this.inFlightCount === 0
+    );
+  }
+
+  private grant(): void {
+    while (this.waiters.length > 0 && this.canStart(this.waiters[0].count)) {
+      const waiter = this.waiters.shift();
+      this.inFlightCount += waiter.count;
+      waiter.resolve();
+    }
+    this.updateSaturation();
+  }
+
+  private updateSaturation(): void {
+    this.setSaturated(
+      this.waiters.length > 0 || this.inFlightCount >= this.maxInFlight,
+    );
+  }
+
+  private setSaturated(saturated: boolean): void {
+    if (this.saturated !== saturated) {
+      this.saturated = saturated;
+      this.onChange(saturated, this.stats());
+    }
+  }
+}
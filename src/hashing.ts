@@ -9,6 +9,7 @@ import {
 } from './generated/athena/models.js';
 import brotli from 'brotli';
 import { buffer } from 'stream/consumers';
+import { AthenaInputError } from './errors.js';
 
 const require_ = createRequire(import.meta.url);
 const { cv } = require_('opencv-wasm');
@@ -20,6 +21,7 @@ const { cv } = require_('opencv-wasm');
  * @param imageFormat Format of the input image (default is UNSPECIFIED)
  * @param resize Whether to resize the image to 448x448 pixels (default is false)
  * @param hashes Array of hash types to compute (default is [MD5, SHA1])
+ * @throws AthenaInputError if the image cannot be decoded, or is not 448x448 pixels when not resizing
  * @returns {Promise<{md5?: string, sha1?: string, data: Buffer}>} Object containing MD5 hash, SHA1 hash, and resized image buffer
  */
 export async function computeHashesFromStream(
@@ -63,7 +65,10 @@ export async function computeHashesFromStream(
     const decoded = await sharp(rawBuffer)
       .removeAlpha()
       .raw({ depth: 'uchar' })
-      .toBuffer({ resolveWithObject: true });
+      .toBuffer({ resolveWithObject: true })
+      .catch((err: unknown) => {
+        throw new AthenaInputError('Unable to decode image', { cause: err });
+      });
 
     const { data: rgbPixels, info } = decoded;
 
@@ -85,9 +90,13 @@ export async function computeHashesFromStream(
   } else {
     data = await buffer(stream);
     // use sharp to validate the image dimensions
-    const metadata = await sharp(data).metadata();
+    const metadata = await sharp(data)
+      .metadata()
+      .catch((err: unknown) => {
+        throw new AthenaInputError('Unable to decode image', { cause: err });
+      });
     if (metadata.width !== 448 || metadata.height !== 448) {
-      throw new Error('Image must be 448x448 pixels');
+      throw new AthenaInputError('Image must be 448x448 pixels');
     }
   }
 
@@ -0,0 +1,85 @@
+import { type AthenaError, toAthenaError } from './errors.js';
+import type { CallOptions } from './callOptions.js';
+
+/**
+ * Outcome of a health check stage. Stages that cannot be checked, e.g.
+ * token acquisition when replaying, or anything not yet cached in the
+ * cached mode, are skipped.
+ */
+export type HealthStatus = 'pass' | 'fail' | 'skip';
+
+/**
+ * Result of one health check stage.
+ * @property status Whether the stage passed, failed or was skipped.
+ * @property latencyMs Time (ms) the stage took.
+ * @property error Why the stage failed, if it did.
+ */
+export type HealthStageResult<T extends object = object> = {
+  status: HealthStatus;
+  latencyMs: number;
+  error?: AthenaError | undefined;
+} & T;
+
+/**
+ * How thoroughly to check health.
+ * - full: contact the issuer and the service (default). Suited to readiness probes.
+ * - cached: report the state the SDK already holds without any network
+ *   calls. Suited to high-frequency liveness probes.
+ */
+export type HealthCheckMode = 'full' | 'cached';
+
+/**
+ * Options for ClassifierSdk.healthCheck().
+ * @property mode How thoroughly to check (default 'full').
+ */
+export type HealthCheckOptions = CallOptions & {
+  mode?: HealthCheckMode | undefined;
+};
+
+/**
+ * Health of each stage between the SDK and the Athena service.
+ * @property healthy Whether no stage failed.
+ * @property mode The mode the check ran in.
+ * @property checkedAt When the check started.
+ * @property discovery Whether the OIDC issuer's metadata could be discovered.
+ * Skipped for custom token providers.
+ * @property token Whether an access token could be acquired, and when it expires.
+ * @property channel The gRPC channel's connectivity state, e.g. READY or TRANSIENT_FAILURE.
+ * @property deployment Whether the configured deployment is listed by the service.
+ * @property stream The classify stream's lifecycle state.
+ */
+export type HealthReport = {
+  healthy: boolean;
+  mode: HealthCheckMode;
+  checkedAt: Date;
+  discovery: HealthStageResult<{ issuerUrl?: string | undefined }>;
+  token: HealthStageResult<{ expiresAt?: Date | undefined }>;
+  channel: HealthStageResult<{ state: string }>;
+  deployment: HealthStageResult<{ deploymentId: string; found?: boolean }>;
+  stream: HealthStageResult<{ state: string }>;
+};
+
+/**
+ * Runs one health check stage, timing it and capturing any error.
+ * @param details Stage details, which the check may fill in as it runs.
+ * @param check Resolves to the stage's status, or throws if it failed.
+ * @returns The stage result.
+ */
+export async function runHealthStage<T extends object>(
+  details: T,
+  check: (details: T) => Promise<HealthStatus>,
+): Promise<HealthStageResult<T>> {
+  const started = performance.now();
+
+  try {
+    const status = await check(details);
+    return { ...details, status, latencyMs: performance.now() - started };
+  } catch (err) {
+    return {
+      ...details,
+      status: 'fail',
+      latencyMs: performance.now() - started,
+      error: toAthenaError(err),
+    };
+  }
+}
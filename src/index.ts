@@ -11,8 +11,10 @@ import {
   Deployment,
   ImageFormat,
   ClassificationOutput,
+  ListDeploymentsResponse,
 } from './generated/athena/models.js';
 import * as grpc from '@grpc/grpc-js';
+import type { Span } from '@opentelemetry/api';
 import { ClassifierServiceClient } from './generated/athena/athena.js';
 import { EventEmitter } from 'events';
 import { Empty } from './generated/google/protobuf/empty.js';
@@ -21,11 +23,83 @@ import {
   AuthenticationManager,
 } from './authenticationManager.js';
 import { computeHashesFromStream } from './hashing.js';
+import {
+  type AthenaEnvironment,
+  defaultGrpcAddress,
+  environmentProfiles,
+  readEnvironment,
+  resolveEnvironment,
+} from './environment.js';
+import {
+  type AccessToken,
+  type TokenProvider,
+  formatAuthorization,
+  isTokenProvider,
+} from './tokenProvider.js';
+import { type Logger, silentLogger } from './logger.js';
+import {
+  Telemetry,
+  type TelemetryAttributes,
+  type TelemetryOptions,
+} from './telemetry.js';
+import {
+  PendingRequests,
+  type RequestInfo,
+  type RoutedInput,
+  toRequestInfo,
+} from './pendingRequests.js';
+import {
+  type CallOptions,
+  abortable,
+  createCallSignal,
+  createDeadline,
+  throwIfAborted,
+  toAbortError,
+} from './callOptions.js';
+import {
+  AthenaAuthError,
+  type AthenaClassificationError,
+  AthenaError,
+  AthenaInputError,
+  AthenaTimeoutError,
+  AthenaTransportError,
+  toAthenaError,
+} from './errors.js';
+import {
+  type HealthCheckOptions,
+  type HealthReport,
+  runHealthStage,
+} from './health.js';
+import { type BatchOptions, MicroBatcher } from './batcher.js';
+import {
+  type FlowControlOptions,
+  type FlowControlStats,
+  FlowController,
+} from './flowControl.js';
+import { type RetryPolicy, defaultRetryPolicy, withRetry } from './retry.js';
+import {
+  type ChannelCredentialsOptions,
+  createChannelCredentials,
+} from './credentials.js';
+import {
+  type BackoffOptions,
+  computeBackoffDelay,
+  defaultBackoffOptions,
+  delay,
+} from './backoff.js';
+import {
+  type RecordOptions,
+  type ReplayTransport,
+  TrafficRecorder,
+} from './recording.js';
 
 /**
  * Options for the classifyImage method.
  * @property affiliate Optional affiliate identifier for the request.
  * @property correlationId Optional correlation ID for tracking the request.
+ * @property deploymentId Optional deployment to classify against on the stream,
+ * overriding the SDK's deploymentId. The unary classifySingle call has no
+ * deployment and rejects it.
  * @property data The image data as a readable stream or buffer.
  * @property encoding Optional encoding type for the image data.
  * @property format Optional image format.
@@ -35,6 +109,7 @@ import { computeHashesFromStream } from './hashing.js';
 export type ClassifyImageInput = {
   affiliate?: string;
   correlationId?: string;
+  deploymentId?: string;
   data: Readable | Buffer<ArrayBufferLike>;
   encoding?: ClassifyRequest['inputs'][number]['encoding'];
   includeHashes?: HashType[];
@@ -49,37 +124,174 @@ export type RawImageInput = {
   format: ClassifyRequest['inputs'][number]['format'];
 };
 
+/**
+ * Options for automatically reconnecting the classify stream.
+ * @property maxAttempts Maximum reconnection attempts before giving up (default 5).
+ * @property initialDelay Delay (ms) before the first attempt (default 500).
+ * @property maxDelay Upper bound (ms) for the delay between attempts (default 30000).
+ * @property multiplier Factor the delay grows by after each attempt (default 2).
+ * @property jitter Fraction (0-1) of each delay to randomise (default 0.2).
+ * @property connectTimeout Time (ms) to wait for the channel to become ready on each attempt (default 10000).
+ * @property inFlight What to do with requests that were awaiting a response when the
+ * stream dropped: 'resend' them once reconnected, or 'reject' them (default).
+ */
+export type ReconnectOptions = Partial<BackoffOptions> & {
+  maxAttempts?: number;
+  connectTimeout?: number;
+  inFlight?: 'resend' | 'reject';
+};
+
+/**
+ * Options for closing the classify stream.
+ * @property drain Stop accepting new requests and wait for responses to
+ * everything already sent before closing (default false).
+ * @property timeoutMs Maximum time (ms) to wait for responses when draining
+ * (default unlimited; each request still times out after requestTimeout).
+ */
+export type CloseOptions = {
+  drain?: boolean;
+  timeoutMs?: number;
+};
+
+/**
+ * Outcome of closing the classify stream.
+ * @property completed Correlation IDs that received a response before the stream closed.
+ * @property abandoned Correlation IDs that were rejected without a response.
+ */
+export type CloseSummary = {
+  completed: string[];
+  abandoned: string[];
+};
+
 /**
  * Options for initializing the ClassifierSdk.
- * @property keepAliveInterval Optional interval (ms) for keep-alive pings.
- * @property grpcAddress Optional gRPC server address.
- * @property deploymentId Deployment ID to use for classification.
+ * @property keepAliveInterval Optional interval (ms) between HTTP/2 keepalive pings on the
+ * channel. Disabled unless set. Servers close channels that ping more often than their
+ * keepalive policy allows (GOAWAY too_many_pings; gRPC servers allow one ping per 5 minutes
+ * without data by default), so match the server's policy. Overridden by
+ * 'grpc.keepalive_time_ms' in channelOptions; set 'grpc.keepalive_timeout_ms' there to
+ * change how long to wait for a ping to be acknowledged (default 20000).
+ * @property idleTimeout Optional time (ms) with no traffic on the classify stream after
+ * which it is closed. The stream reopens on the next classify call. Disabled unless set.
+ * @property requestTimeout Optional time (ms) to wait for a streamed classification response (default 60000).
+ * @property environment Optional named environment (live, dev, qa or custom) that
+ * sets the audience, issuer and gRPC address together. Any of them also given
+ * must match it. Unless set, the live defaults apply and nothing is checked; a dev
+ * or qa audience without a grpcAddress logs a warning.
+ * @property grpcAddress Optional gRPC server address (default the live service).
+ * @property deploymentId Default deployment ID to use for classification.
  * @property affiliate Affiliate identifier for requests.
- * @property authentication Authentication options for the SDK.
+ * @property authentication OIDC client credentials for the SDK, or a TokenProvider
+ * supplying access tokens some other way, e.g. from a file or a token broker.
+ * @property reconnect Optional reconnection behaviour for the classify stream. Pass
+ * true to use the defaults. Disabled unless set.
+ * @property credentials Optional channel credentials: insecure, TLS with a custom CA
+ * and/or client certificate, or a grpc.ChannelCredentials instance. Defaults to TLS.
+ * @property retry Optional retry policy for the unary classifySingle and listDeployments
+ * calls. Pass true to use the defaults. Disabled unless set.
+ * @property batching Optional micro-batching of streamed inputs: inputs from separate
+ * calls are combined into one ClassifyRequest. Pass true to use the defaults. Disabled unless set.
+ * @property maxInFlight Optional limit on streamed images being preprocessed, sent or
+ * awaiting a response at once. Further calls wait for a slot. Unlimited unless set.
+ * @property maxQueued Optional limit on streamed images waiting for a slot. Further calls
+ * are rejected with AthenaQueueFullError. Unlimited unless set.
+ * @property interceptors Optional gRPC client interceptors applied to every call.
+ * @property channelOptions Optional gRPC channel options, e.g. max message size or keepalive.
+ * @property logger Optional logger with debug/info/warn/error methods, e.g. pino or winston.
+ * Also used for authentication unless authentication.logger is set. Silent unless set.
+ * @property telemetry Optional OpenTelemetry spans and metrics, using the global providers
+ * when true. Requires the @opentelemetry/api package. Disabled unless set.
+ * @property record Optional file to record every request, response and status to,
+ * one JSON message per line, with image data optionally redacted. Disabled unless set.
+ * @property replay Optional recording to answer every call from instead of the
+ * service. No network connection is made and no access token is acquired.
  */
 export interface ClassifierSdkOptions {
+  environment?: AthenaEnvironment | undefined;
   keepAliveInterval?: number | undefined;
+  idleTimeout?: number | undefined;
+  requestTimeout?: number | undefined;
   grpcAddress?: string;
   deploymentId: string;
   affiliate: string;
-  authentication: AuthenticationOptions;
+  authentication: AuthenticationOptions | TokenProvider;
+  reconnect?: ReconnectOptions | boolean | undefined;
+  credentials?: ChannelCredentialsOptions | undefined;
+  retry?: RetryPolicy | boolean | undefined;
+  batching?: BatchOptions | boolean | undefined;
+  maxInFlight?: FlowControlOptions['maxInFlight'] | undefined;
+  maxQueued?: FlowControlOptions['maxQueued'] | undefined;
+  interceptors?: grpc.Interceptor[] | undefined;
+  channelOptions?: grpc.ChannelOptions | undefined;
+  logger?: Logger | undefined;
+  telemetry?: TelemetryOptions | boolean | undefined;
+  record?: RecordOptions | undefined;
+  replay?: ReplayTransport | undefined;
 }
 
+/**
+ * Lifecycle state of the classify stream.
+ * - idle: no stream is open, either because open() has not been called yet or
+ *   because the stream was closed after idleTimeout and reopens on the next request.
+ * - connecting: the stream is being opened or re-established.
+ * - open: the stream is established and accepting requests.
+ * - closing: close() is draining or ending the stream.
+ * - closed: the stream has been closed and can be reopened with open().
+ * - failed: the stream could not be opened, or was lost and not re-established.
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'closing'
+  | 'closed'
+  | 'failed';
+
 /**
  * Event types emitted by the ClassifierSdk.
  * @property error Emitted when an error occurs.
  * @property data Emitted when classification data is received.
- * @property close Emitted when the gRPC stream is closed.
- * @property open Emitted when the gRPC stream is opened.
+ * @property close Emitted once when the gRPC stream is closed or fails.
+ * @property open Emitted when the gRPC stream is established.
+ * @property stateChange Emitted on every connection state transition, with the new and previous state.
+ * @property reconnecting Emitted before each reconnection attempt, with the attempt number and delay (ms).
+ * @property reconnected Emitted when the stream has been re-established.
+ * @property output Emitted for each streamed output that completes a request, with what was sent.
+ * @property outputError Emitted for each streamed output that carries an error, with what was sent.
+ * @property globalError Emitted when a response carries a global error, with the requests it failed.
+ * @property requestSent Emitted when a ClassifyRequest has been written to the stream, with its inputs.
+ * @property tokenRefreshed Emitted when a new access token is acquired, with its expiry if known.
+ * @property backpressure Emitted when maxInFlight or maxQueued is reached and calls start waiting or being rejected.
+ * @property backpressureRelieved Emitted when calls no longer have to wait.
  */
 export type ClassifierEvents = {
   error: (err: Error) => void;
   data: (data: ClassifyResponse) => void;
   close: () => void;
   open: () => void;
+  stateChange: (state: ConnectionState, previous: ConnectionState) => void;
+  reconnecting: (attempt: number, delay: number) => void;
+  reconnected: (attempt: number) => void;
+  output: (output: ClassificationOutput, request: RequestInfo) => void;
+  outputError: (err: AthenaClassificationError, request: RequestInfo) => void;
+  globalError: (
+    err: AthenaClassificationError,
+    requests: RequestInfo[],
+  ) => void;
+  requestSent: (requests: RequestInfo[]) => void;
+  tokenRefreshed: (expiresAt: Date | undefined) => void;
+  backpressure: (stats: FlowControlStats) => void;
+  backpressureRelieved: (stats: FlowControlStats) => void;
 };
 
-export const defaultGrpcAddress = 'api.athena-risk-intelligence.com:443';
+export const defaultRequestTimeout = 60000;
+
+export const defaultReconnectOptions: Required<ReconnectOptions> = {
+  ...defaultBackoffOptions,
+  maxAttempts: 5,
+  connectTimeout: 10000,
+  inFlight: 'reject',
+};
 
 /**
  * SDK for interacting with the Athena classification service via gRPC.
@@ -88,6 +300,16 @@ export const defaultGrpcAddress = 'api.athena-risk-intelligence.com:443';
  * @fires ClassifierSdk#error
  * @fires ClassifierSdk#close
  * @fires ClassifierSdk#data
+ * @fires ClassifierSdk#stateChange
+ * @fires ClassifierSdk#reconnecting
+ * @fires ClassifierSdk#reconnected
+ * @fires ClassifierSdk#output
+ * @fires ClassifierSdk#outputError
+ * @fires ClassifierSdk#globalError
+ * @fires ClassifierSdk#requestSent
+ * @fires ClassifierSdk#tokenRefreshed
+ * @fires ClassifierSdk#backpressure
+ * @fires ClassifierSdk#backpressureRelieved
  */
 export class ClassifierSdk extends EventEmitter {
   private grpcAddress: string;
@@ -97,8 +319,37 @@ export class ClassifierSdk extends EventEmitter {
     ClassifyResponse
   > | null = null;
   private options: ClassifierSdkOptions;
-  private auth: AuthenticationManager;
-  private keepAlive?: NodeJS.Timeout;
+  private auth: TokenProvider;
+  private ownsAuth: boolean;
+  private lastAccessToken?: string | undefined;
+  private recorder: TrafficRecorder | null;
+  private replay: ReplayTransport | null;
+  private deployments: Deployment[] | null = null;
+  private idleTimer?: NodeJS.Timeout | undefined;
+  private idleSuspended = false;
+  private pending = new PendingRequests({
+    output: (output, request): void => {
+      this.emit('output', output, request);
+    },
+    outputError: (err, request): void => {
+      this.emit('outputError', err, request);
+    },
+    globalError: (err, requests): void => {
+      this.emit('globalError', err, requests);
+    },
+  });
+  private reconnectOptions: Required<ReconnectOptions> | null;
+  private reconnectAttempts = 0;
+  private reconnecting: Promise<void> | null = null;
+  private shouldReconnect = false;
+  private connectionState: ConnectionState = 'idle';
+  private opening: Promise<void> | null = null;
+  private closingSummary: Promise<CloseSummary> | null = null;
+  private retryPolicy: Required<RetryPolicy> | null;
+  private batcher: MicroBatcher<RoutedInput> | null;
+  private flow: FlowController;
+  private telemetry: Telemetry;
+  private logger: Logger;
   private static clientVersion: string | null = null;
 
   /**
@@ -152,36 +403,175 @@ export class ClassifierSdk extends EventEmitter {
   /**
    * Constructs a new ClassifierSdk instance.
    * @param options Configuration options for the SDK.
+   * @throws AthenaInputError if the options are invalid, e.g. settings that do
+   * not match the environment.
    */
   constructor({
-    grpcAddress = defaultGrpcAddress,
+    environment,
+    grpcAddress,
     keepAliveInterval,
+    idleTimeout,
+    requestTimeout = defaultRequestTimeout,
     deploymentId,
     affiliate,
     authentication,
+    reconnect,
+    credentials,
+    retry,
+    batching,
+    maxInFlight,
+    maxQueued,
+    interceptors = [],
+    channelOptions = {},
+    logger = silentLogger,
+    telemetry,
+    record,
+    replay,
   }: ClassifierSdkOptions) {
     super();
+    if (environment) {
+      if (isTokenProvider(authentication)) {
+        grpcAddress = resolveEnvironment(environment, {
+          grpcAddress,
+          withAuthentication: false,
+        }).grpcAddress;
+      } else {
+        const resolved = resolveEnvironment(environment, {
+          grpcAddress,
+          audience: authentication.audience,
+          issuerUrl: authentication.issuerUrl,
+          allowInsecureRequests: authentication.allowInsecureRequests,
+        });
+        grpcAddress = resolved.grpcAddress;
+        authentication = {
+          ...authentication,
+          audience: resolved.audience,
+          issuerUrl: resolved.issuerUrl,
+        };
+      }
+    } else if (
+      grpcAddress === undefined &&
+      !isTokenProvider(authentication) &&
+      authentication.audience !== undefined &&
+      authentication.audience !== environmentProfiles.live.audience
+    ) {
+      logger.warn(
+        'No grpcAddress configured for a non-live audience; using the live service',
+        { audience: authentication.audience, grpcAddress: defaultGrpcAddress },
+      );
+    }
+    grpcAddress ??= defaultGrpcAddress;
+
+    this.logger = logger;
     this.grpcAddress = grpcAddress;
+    this.recorder = record ? new TrafficRecorder(record, logger) : null;
+    this.replay = replay ?? null;
     this.client = new ClassifierServiceClient(
       this.grpcAddress,
-      grpc.credentials.createSsl(),
+      createChannelCredentials(credentials),
+      {
+        ...(keepAliveInterval === undefined
+          ? {}
+          : { 'grpc.keepalive_time_ms': keepAliveInterval }),
+        ...channelOptions,
+        interceptors: [
+          ...interceptors,
+          ...(this.recorder ? [this.recorder.interceptor] : []),
+          ...(this.replay ? [this.replay.interceptor] : []),
+        ],
+      },
     );
     this.options = {
+      environment,
       grpcAddress,
       keepAliveInterval,
+      idleTimeout,
+      requestTimeout,
       deploymentId,
       affiliate,
       authentication,
+      reconnect,
+      credentials,
+      retry,
+      batching,
+      maxInFlight,
+      maxQueued,
+      interceptors,
+      channelOptions,
+      logger,
+      telemetry,
+      record,
+      replay,
     };
 
-    this.auth = new AuthenticationManager(this.options.authentication);
+    this.reconnectOptions = reconnect
+      ? {
+          ...defaultReconnectOptions,
+          ...(reconnect === true ? {} : reconnect),
+        }
+      : null;
+
+    this.retryPolicy = retry
+      ? { ...defaultRetryPolicy, ...(retry === true ? {} : retry) }
+      : null;
+
+    this.batcher = batching
+      ? new MicroBatcher(
+          (inputs) => this.writeInputs(inputs),
+          batching === true ? {} : batching,
+        )
+      : null;
+
+    this.flow = new FlowController(
+      { maxInFlight, maxQueued },
+      (saturated, stats) =>
+        this.emit(saturated ? 'backpressure' : 'backpressureRelieved', stats),
+    );
+
+    this.telemetry = new Telemetry(telemetry);
+    this.telemetry.observeQueueDepth(() => this.flow.queued);
+
+    this.ownsAuth = !isTokenProvider(authentication);
+    this.auth = isTokenProvider(authentication)
+      ? authentication
+      : new AuthenticationManager(
+          { ...authentication, logger: authentication.logger ?? logger },
+          (expiresAt) => this.emit('tokenRefreshed', expiresAt),
+          this.telemetry,
+        );
+  }
+
+  /**
+   * Creates a ClassifierSdk configured from ATHENA_* environment variables:
+   * ATHENA_ENVIRONMENT (live, dev, qa or custom; default live), ATHENA_AUDIENCE,
+   * ATHENA_ISSUER_URL and ATHENA_GRPC_ADDRESS (checked against the environment),
+   * ATHENA_CLIENT_ID, ATHENA_CLIENT_SECRET and ATHENA_AFFILIATE (required), and
+   * ATHENA_DEPLOYMENT_ID. Unknown ATHENA_* variables are rejected.
+   * @param options Other SDK options, e.g. logger or reconnect.
+   * @param env The environment variables (default process.env).
+   * @throws AthenaInputError listing every missing or invalid variable.
+   * @returns The configured SDK.
+   */
+  public static fromEnv(
+    options: Omit<
+      Partial<ClassifierSdkOptions>,
+      | 'environment'
+      | 'grpcAddress'
+      | 'deploymentId'
+      | 'affiliate'
+      | 'authentication'
+    > = {},
+    env: Record<string, string | undefined> = process.env,
+  ): ClassifierSdk {
+    return new ClassifierSdk({ ...options, ...readEnvironment(env) });
   }
 
   /**
    * Creates fresh metadata with standard headers and authentication.
+   * @param signal Optional AbortSignal that stops waiting for the access token.
    * @returns Promise resolving to configured metadata.
    */
-  private async createMetadata(): Promise<grpc.Metadata> {
+  private async createMetadata(signal?: AbortSignal): Promise<grpc.Metadata> {
     const metadata = new grpc.Metadata();
 
     // Lazy load version on first use
@@ -200,57 +590,340 @@ export class ClassifierSdk extends EventEmitter {
       `athena-nodejs-client/${ClassifierSdk.clientVersion}`,
     );
     metadata.set('x-client-language', 'nodejs');
-    await this.auth.appendAuthorizationToMetadata(metadata);
+    this.telemetry.inject(metadata);
+    if (!this.replay) {
+      metadata.set(
+        'Authorization',
+        formatAuthorization(await this.getToken(signal)),
+      );
+    }
     return metadata;
   }
 
+  /**
+   * Gets an access token from the token provider. Emits tokenRefreshed when
+   * a custom provider returns a different token; AuthenticationManager
+   * reports its own refreshes.
+   * @param signal Optional AbortSignal that stops waiting for the token.
+   */
+  private async getToken(signal?: AbortSignal): Promise<AccessToken> {
+    const token = await this.auth.getToken(signal);
+    if (
+      !(this.auth instanceof AuthenticationManager) &&
+      token.accessToken !== this.lastAccessToken
+    ) {
+      this.lastAccessToken = token.accessToken;
+      this.emit('tokenRefreshed', token.expiresAt);
+    }
+    return token;
+  }
+
+  /**
+   * Runs a unary call, retrying per the retry policy. Each attempt gets fresh
+   * metadata, and is cancelled if the call's signal fires.
+   * @param method The RPC name, used for telemetry.
+   * @param attributes Telemetry attributes describing the call.
+   * @param signal The call's abort signal, if any.
+   * @param deadline The call's gRPC deadline.
+   * @param start Starts the gRPC call with the given metadata and callback.
+   * @returns Promise resolving to the call's response.
+   */
+  private async invokeUnary<T>(
+    method: string,
+    attributes: TelemetryAttributes,
+    signal: AbortSignal | undefined,
+    deadline: grpc.Deadline,
+    start: (
+      metadata: grpc.Metadata,
+      callOptions: Partial<grpc.CallOptions>,
+      callback: grpc.requestCallback<T>,
+    ) => grpc.ClientUnaryCall,
+  ): Promise<T> {
+    const attempt = async (): Promise<T> => {
+      const metadata = await this.createMetadata(signal);
+      throwIfAborted(signal);
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = (): void => call.cancel();
+        const call = start(metadata, { deadline }, (err, response) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (signal?.aborted) {
+            reject(toAbortError(signal));
+          } else if (
+            err?.code === grpc.status.DEADLINE_EXCEEDED &&
+            Date.now() >= Number(deadline)
+          ) {
+            reject(new AthenaTimeoutError(err.message, { cause: err }));
+          } else if (err) {
+            reject(toAthenaError(err));
+          } else {
+            resolve(response);
+          }
+        });
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    };
+
+    const started = Date.now();
+    const callAttributes = { ...attributes, 'rpc.method': method };
+
+    return this.telemetry.trace(
+      `athena.${method}`,
+      callAttributes,
+      async () => {
+        try {
+          return await (this.retryPolicy
+            ? withRetry(attempt, this.retryPolicy, signal)
+            : attempt());
+        } catch (err) {
+          this.telemetry.recordError(err, callAttributes);
+          throw err;
+        } finally {
+          this.telemetry.recordDuration(Date.now() - started, callAttributes);
+        }
+      },
+    );
+  }
+
   /**
    * Lists available deployments from the Athena service.
+   * @param options Optional timeout and AbortSignal for the call.
+   * @throws AthenaTimeoutError or AthenaAbortError if the call is cut short.
    * @returns Promise resolving to an array of deployments.
    */
-  public async listDeployments(): Promise<Deployment[]> {
-    const metadata = await this.createMetadata();
+  public async listDeployments(
+    options: CallOptions = {},
+  ): Promise<Deployment[]> {
+    const response = await this.invokeUnary<ListDeploymentsResponse>(
+      'ListDeployments',
+      {},
+      createCallSignal(options),
+      createDeadline(options),
+      (metadata, callOptions, callback) =>
+        this.client.listDeployments(Empty, metadata, callOptions, callback),
+    );
+    this.deployments = response?.deployments || [];
+    return this.deployments;
+  }
+
+  /**
+   * Checks each stage between the SDK and the Athena service on its own:
+   * OIDC discovery, the access token, channel connectivity, the configured
+   * deployment and the classify stream. Never rejects; failures are reported
+   * per stage.
+   *
+   * The full mode contacts the issuer and the service. The cached mode only
+   * reports state the SDK already holds, such as the current token's expiry
+   * and the deployments last listed, so it is cheap enough for liveness probes.
+   * @param options The mode, plus an optional timeout and AbortSignal applied
+   * to each stage.
+   * @returns Promise resolving to the result of each stage.
+   */
+  public async healthCheck(
+    options: HealthCheckOptions = {},
+  ): Promise<HealthReport> {
+    const { mode = 'full' } = options;
+    const full = mode === 'full';
+    const checkedAt = new Date();
+    const signal = (): AbortSignal | undefined => createCallSignal(options);
 
-    return new Promise<Deployment[]>((resolve, reject) => {
-      this.client.listDeployments(Empty, metadata, (err, response) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(response?.deployments || []);
+    const auth = this.auth;
+    const discovery = await runHealthStage(
+      {
+        issuerUrl:
+          auth instanceof AuthenticationManager ? auth.issuerUrl : undefined,
+      },
+      async () => {
+        if (this.replay || !(auth instanceof AuthenticationManager)) {
+          return 'skip';
         }
-      });
+        if (full) {
+          await auth.rediscover(signal());
+        }
+        return auth.discovered ? 'pass' : 'skip';
+      },
+    );
+
+    const token = await runHealthStage<{ expiresAt?: Date | undefined }>(
+      {},
+      async (details) => {
+        if (this.replay) {
+          return 'skip';
+        }
+        const current = full
+          ? await this.getToken(signal())
+          : this.auth.peek?.();
+        if (!current) {
+          return 'skip';
+        }
+        details.expiresAt = current.expiresAt;
+        if (details.expiresAt && details.expiresAt < new Date()) {
+          throw new AthenaAuthError(
+            `Access token expired at ${details.expiresAt.toISOString()}`,
+          );
+        }
+        return 'pass';
+      },
+    );
+
+    const channel = await runHealthStage({ state: '' }, async (details) => {
+      if (this.replay) {
+        details.state = 'REPLAY';
+        return 'skip';
+      }
+      const state = this.client.getChannel().getConnectivityState(false);
+      details.state = grpc.connectivityState[state];
+
+      if (full && state !== grpc.connectivityState.READY) {
+        await this.waitForReady(
+          options.timeoutMs ??
+            (this.reconnectOptions ?? defaultReconnectOptions).connectTimeout,
+        );
+        details.state = grpc.connectivityState[grpc.connectivityState.READY];
+      } else if (
+        state === grpc.connectivityState.TRANSIENT_FAILURE ||
+        state === grpc.connectivityState.SHUTDOWN
+      ) {
+        throw new AthenaTransportError(
+          `Channel to ${this.grpcAddress} is ${details.state}`,
+          { retryable: state === grpc.connectivityState.TRANSIENT_FAILURE },
+        );
+      }
+      return 'pass';
     });
+
+    const deployment = await runHealthStage<{
+      deploymentId: string;
+      found?: boolean;
+    }>({ deploymentId: this.options.deploymentId }, async (details) => {
+      const deployments = full
+        ? await this.listDeployments({ signal: signal() })
+        : this.deployments;
+      if (!deployments) {
+        return 'skip';
+      }
+
+      details.found = deployments.some(
+        ({ deploymentId }) => deploymentId === details.deploymentId,
+      );
+      if (!details.found) {
+        throw new AthenaInputError(
+          `Deployment ${details.deploymentId} is not listed by the service`,
+        );
+      }
+      return 'pass';
+    });
+
+    const stream = await runHealthStage(
+      { state: this.connectionState },
+      async ({ state }) => {
+        if (state !== 'open' && state !== 'idle') {
+          throw new AthenaTransportError(`Classify stream is ${state}`, {
+            retryable: state === 'connecting' || state === 'failed',
+          });
+        }
+        return 'pass';
+      },
+    );
+
+    const stages = [discovery, token, channel, deployment, stream];
+    return {
+      healthy: stages.every(({ status }) => status !== 'fail'),
+      mode,
+      checkedAt,
+      discovery,
+      token,
+      channel,
+      deployment,
+      stream,
+    };
+  }
+
+  /**
+   * Current lifecycle state of the classify stream.
+   */
+  public get state(): ConnectionState {
+    return this.connectionState;
   }
 
   /**
    * Opens a gRPC stream to the Athena classification service.
-   * Emits 'open' when ready, and sets up keep-alive and event listeners.
+   * Emits 'open' once the channel is connected and the call has started, and
+   * sets up event listeners. Calling open() while the stream is open or
+   * opening returns without starting a second stream.
+   * @throws AthenaTransportError if the channel does not become ready in time.
    * @returns Promise that resolves when the stream is open.
    */
   public async open(): Promise<void> {
-    const metadata = await this.createMetadata();
+    if (this.closingSummary) {
+      await this.closingSummary;
+    }
 
-    this.classifierGrpcCall = this.client.classify(metadata);
+    if (this.reconnecting) {
+      await this.reconnecting;
+    }
 
-    // Setup interval to keep the grpc client alive.
-    this.keepAlive = setInterval(async () => {
-      if (this.classifierGrpcCall) {
-        try {
-          this.classifierGrpcCall.write({
-            deploymentId: this.options.deploymentId,
-            inputs: [],
-          });
-        } catch (err) {
-          if (err && err instanceof Error) {
-            this.emit('error', err);
-          } else {
-            console.log(err);
-          }
-        }
-      }
-    }, this.options.keepAliveInterval ?? 10000);
+    if (this.connectionState === 'open') {
+      return;
+    }
+
+    this.idleSuspended = false;
+    if (!this.opening) {
+      this.opening = this.establish().finally(() => {
+        this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+
+  /**
+   * Moves through connecting to open, or to failed if the call cannot start.
+   */
+  private async establish(): Promise<void> {
+    this.setState('connecting');
+
+    try {
+      await this.connect();
+    } catch (err) {
+      this.logger.error('Failed to open classify stream', {
+        grpcAddress: this.grpcAddress,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      this.setState('failed');
+      throw err;
+    }
+
+    this.shouldReconnect = true;
+    this.setState('open');
+    this.logger.info('Classify stream open', {
+      grpcAddress: this.grpcAddress,
+    });
+    this.emit('open');
+    this.resetIdleTimer();
+  }
+
+  /**
+   * Waits for the channel to be ready, then starts the classify call with
+   * fresh metadata and wires up its listeners.
+   */
+  private async connect(): Promise<void> {
+    this.logger.debug('Connecting classify stream', {
+      grpcAddress: this.grpcAddress,
+    });
+    if (!this.replay) {
+      await this.waitForReady(
+        (this.reconnectOptions ?? defaultReconnectOptions).connectTimeout,
+      );
+    }
+    const metadata = await this.createMetadata();
 
-    this.classifierGrpcCall.on('data', (data: ClassifyResponse) =>
+    const call = this.client.classify(metadata);
+    this.classifierGrpcCall = call;
+
+    call.on('data', (data: ClassifyResponse) => {
+      this.reconnectAttempts = 0;
+      this.resetIdleTimer();
+      this.pending.settle(data);
       /**
        * Data event
        *
@@ -261,110 +934,728 @@ export class ClassifierSdk extends EventEmitter {
        * @property {string} data.deploymentId The ID of the deployment.
        * @property {ClassificationResult[]} data.results The classification results.
        */
-      this.emit('data', data),
-    );
-    this.classifierGrpcCall.on('error', (err: Error) =>
-      this.emit('error', err),
-    );
-
-    this.classifierGrpcCall.on('end', () => {
-      if (this.keepAlive) {
-        clearInterval(this.keepAlive);
+      this.emit('data', data);
+    });
+    let failed = false;
+    call.on('error', (err: Error) => {
+      failed = true;
+      // A call already ended or replaced, e.g. cancelled by the server
+      // shutting down after close(), has nobody left to report to.
+      if (this.classifierGrpcCall !== call) {
+        return;
       }
-      this.classifierGrpcCall = null;
-      this.emit('close');
+      const error = toAthenaError(err);
+      this.logger.warn('Classify stream error', {
+        error: error.message,
+        code: (error as { code?: number }).code,
+      });
+      this.emit('error', error);
     });
 
-    this.classifierGrpcCall.on('close', () => {
-      if (this.keepAlive) {
-        clearInterval(this.keepAlive);
+    call.on('end', () => this.handleStreamEnded(call, failed));
+    call.on('close', () => this.handleStreamEnded(call, failed));
+  }
+
+  /**
+   * Handles the classify call ending, either by reconnecting or closing.
+   * Ignores calls that have already been replaced or closed deliberately.
+   * @param call The call that ended.
+   * @param failed Whether the call ended with an error.
+   */
+  private handleStreamEnded(
+    call: grpc.ClientDuplexStream<ClassifyRequest, ClassifyResponse>,
+    failed: boolean,
+  ): void {
+    if (this.classifierGrpcCall !== call) {
+      return;
+    }
+
+    this.endCall();
+    this.logger.info('Classify stream ended', {
+      failed,
+      pending: this.pending.size,
+    });
+
+    if (this.reconnectOptions && this.shouldReconnect) {
+      this.setState('connecting');
+      this.reconnecting = this.reconnect(this.reconnectOptions).finally(() => {
+        this.reconnecting = null;
+      });
+      return;
+    }
+
+    this.finish(failed ? 'failed' : 'closed');
+  }
+
+  /**
+   * Re-establishes the classify stream using exponential backoff.
+   * Requests awaiting a response are resent or rejected per the
+   * reconnect options. Moves to failed and emits 'close' if every attempt fails.
+   * @param options Reconnection options.
+   */
+  private async reconnect(options: Required<ReconnectOptions>): Promise<void> {
+    if (options.inFlight === 'reject') {
+      this.rejectPending();
+    }
+
+    while (this.reconnectAttempts < options.maxAttempts) {
+      this.reconnectAttempts++;
+      const attempt = this.reconnectAttempts;
+      const wait = computeBackoffDelay(attempt, options);
+
+      this.logger.info('Reconnecting classify stream', {
+        attempt,
+        maxAttempts: options.maxAttempts,
+        delay: wait,
+      });
+      this.emit('reconnecting', attempt, wait);
+      await delay(wait);
+
+      if (!this.shouldReconnect) {
+        return;
       }
-      this.emit('close');
-      this.classifierGrpcCall = null;
+
+      try {
+        await this.connect();
+      } catch (err) {
+        const error = toAthenaError(err);
+        this.logger.warn('Reconnection attempt failed', {
+          attempt,
+          error: error.message,
+        });
+        // Emitting 'error' with no listener throws, which would end the loop
+        // with the stream stuck connecting.
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error);
+        }
+        continue;
+      }
+
+      if (!this.shouldReconnect) {
+        this.endCall();
+        return;
+      }
+
+      this.setState('open');
+      this.logger.info('Classify stream reconnected', {
+        attempt,
+        resending: options.inFlight === 'resend' ? this.pending.size : 0,
+      });
+      this.emit('reconnected', attempt);
+      this.resetIdleTimer();
+
+      if (options.inFlight === 'resend' && this.pending.size > 0) {
+        await this.resendPending();
+      }
+      return;
+    }
+
+    this.reconnectAttempts = 0;
+    this.logger.error('Giving up reconnecting classify stream', {
+      attempts: options.maxAttempts,
     });
+    this.finish('failed');
+  }
 
-    this.emit('open');
+  /**
+   * Resends the requests still awaiting a response on the new stream. If they
+   * cannot be written, they are rejected rather than left to time out.
+   */
+  private async resendPending(): Promise<void> {
+    const requests = this.pending.list();
+    try {
+      await this.writeInputs(requests);
+    } catch (err) {
+      const error = new AthenaTransportError(
+        'Failed to resend requests after reconnecting',
+        { cause: err, retryable: true },
+      );
+      this.logger.warn('Failed to resend requests after reconnecting', {
+        requests: requests.length,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      for (const { deploymentId, correlationId } of requests) {
+        this.pending.reject(deploymentId, correlationId, error);
+      }
+    }
+  }
+
+  /**
+   * Waits for the underlying channel to be ready to start calls.
+   * @param timeout Time (ms) to wait before failing.
+   */
+  private waitForReady(timeout: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.client.waitForReady(Date.now() + timeout, (err) =>
+        err
+          ? reject(
+              new AthenaTransportError(
+                `Channel to ${this.grpcAddress} was not ready within ${timeout}ms`,
+                { cause: err, retryable: true },
+              ),
+            )
+          : resolve(),
+      );
+    });
   }
 
   /**
    * Sends a classify request for an image to the Athena service.
    * @param options Options for the image classification request.
-   * @throws Error if the gRPC stream is not open.
+   * @throws AthenaTransportError if the gRPC stream is not open.
    * @returns Promise that resolves when the request is sent.
    */
   /**
    * Sends one or more classify requests for images to the Athena service.
    * @param request Single input or array of image classification request options.
-   * @throws Error if the gRPC stream is not open.
+   * @param options Optional timeout and AbortSignal covering preprocessing and sending.
+   * @throws AthenaTransportError if the gRPC stream is not open.
+   * @throws AthenaTimeoutError or AthenaAbortError if sending is cut short.
    * @returns Promise that resolves when the request is sent.
    */
   public async sendClassifyRequest(
     request: ClassifyImageInput | ClassifyImageInput[],
+    options: CallOptions = {},
   ): Promise<void> {
+    const signal = createCallSignal(options);
+    const { sent } = await this.dispatch(
+      Array.isArray(request) ? request : [request],
+      signal,
+    );
+    await abortable(sent, signal);
+  }
+
+  /**
+   * Classifies an image over the open stream and waits for its response.
+   * @param input The image classification request options.
+   * @param options Optional timeout and AbortSignal covering preprocessing,
+   * sending and waiting for the response.
+   * @throws AthenaTransportError if the gRPC stream is not open.
+   * @returns Promise resolving to the matching classification output. Rejects
+   * if the output carries an error, the response carries a global error, the
+   * stream closes, or no response arrives within the request timeout. Rejects
+   * with AthenaTimeoutError or AthenaAbortError if the call is cut short.
+   */
+  public async classify(
+    input: ClassifyImageInput,
+    options: CallOptions = {},
+  ): Promise<ClassificationOutput> {
+    const { responses } = await this.dispatch(
+      [input],
+      createCallSignal(options),
+    );
+    return responses[0];
+  }
+
+  /**
+   * Classifies several images in one request over the open stream and waits
+   * for all of their responses.
+   * @param inputs The image classification request options.
+   * @param options Optional timeout and AbortSignal, as for classify().
+   * @throws AthenaTransportError if the gRPC stream is not open.
+   * @returns Promise resolving to the classification outputs, in input order.
+   * Rejects with the first failure as described for classify().
+   */
+  public async classifyMany(
+    inputs: ClassifyImageInput[],
+    options: CallOptions = {},
+  ): Promise<ClassificationOutput[]> {
+    const { responses } = await this.dispatch(
+      inputs,
+      createCallSignal(options),
+    );
+    return Promise.all(responses);
+  }
+
+  /**
+   * Processes and writes inputs to the classify stream as a single request.
+   * If the signal fires before a response arrives, the affected requests are
+   * rejected with the typed abort error. Returns without waiting for the
+   * write, so that timeouts and stream failures reach the callers even while
+   * the write waits for the stream to drain.
+   * @param requests The image inputs to send.
+   * @param signal Optional AbortSignal for the call.
+   * @returns Promises for each input's classification output, in input
+   * order, and a promise that settles once the request has been written.
+   */
+  private async dispatch(
+    requests: ClassifyImageInput[],
+    signal?: AbortSignal,
+  ): Promise<{
+    responses: Promise<ClassificationOutput>[];
+    sent: Promise<void>;
+  }> {
+    const queued = Date.now();
+    throwIfAborted(signal);
+    this.throwIfClosing();
+
+    if (this.idleSuspended || this.opening) {
+      await abortable(this.open(), signal);
+    }
+
+    if (!this.classifierGrpcCall && this.reconnecting) {
+      await abortable(this.reconnecting, signal);
+    }
+
     if (!this.classifierGrpcCall) {
-      throw new Error('gRPC stream is not open. Call open() first.');
+      throw new AthenaTransportError(
+        'gRPC stream is not open. Call open() first.',
+      );
     }
 
-    const requests: ClassifyImageInput[] = Array.isArray(request)
-      ? request
-      : [request];
+    await this.flow.acquire(requests.length, signal);
+
+    const processedInputs: RoutedInput[] = [];
+    const spans = requests.map((request) =>
+      this.telemetry.startSpan('athena.classify', {
+        'athena.correlation_id': request.correlationId,
+        'athena.deployment_id':
+          request.deploymentId ?? this.options.deploymentId,
+      }),
+    );
+
+    try {
+      for (const [index, request] of requests.entries()) {
+        const deploymentId = request.deploymentId ?? this.options.deploymentId;
+        const input = await abortable(
+          this.preprocess(request, deploymentId, spans[index]),
+          signal,
+        );
+        processedInputs.push({
+          deploymentId,
+          input,
+          timings: { queued, preprocessed: Date.now() },
+        });
+      }
+      this.throwIfClosing();
+    } catch (err) {
+      this.flow.release(requests.length);
+      this.telemetry.recordError(err, { 'rpc.method': 'Classify' });
+      for (const span of spans) {
+        this.telemetry.endSpan(span, err);
+      }
+      throw err;
+    }
 
-    const processedInputs: ClassificationInput[] = [];
+    // Inputs whose correlation ID is already pending are rejected by track()
+    // and must not reach the stream, where their output would be ambiguous.
+    const sending: RoutedInput[] = [];
+    const responses = processedInputs.map((routed, index) => {
+      if (!this.pending.isPending(routed.input.correlationId)) {
+        sending.push(routed);
+      }
+      const response = this.pending.track(routed, this.options.requestTimeout);
+      const release = (): void => this.flow.release();
+      response.then(release, release);
+      response.then(
+        () => this.recordStreamed(routed, spans[index]),
+        (err) => this.recordStreamed(routed, spans[index], err),
+      );
+      return response;
+    });
 
-    for (const request of requests) {
-      const input = await this.processImageInput(request);
-      processedInputs.push(input);
+    if (signal) {
+      const onAbort = (): void => {
+        for (const { deploymentId, input } of sending) {
+          this.pending.reject(
+            deploymentId,
+            input.correlationId,
+            toAbortError(signal),
+          );
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      void Promise.allSettled(responses).then(() =>
+        signal.removeEventListener('abort', onAbort),
+      );
     }
 
-    const classifyRequest: ClassifyRequest = {
-      deploymentId: this.options.deploymentId,
-      inputs: processedInputs,
+    const sent = this.batcher
+      ? Promise.all(
+          sending.map((routed) =>
+            this.batcher.add(routed, routed.input.data.length),
+          ),
+        ).then(() => undefined)
+      : this.writeInputs(sending);
+
+    sent.catch((err: Error) => {
+      for (const { deploymentId, input } of sending) {
+        this.pending.reject(deploymentId, input.correlationId, err);
+      }
+    });
+
+    return { responses, sent };
+  }
+
+  /**
+   * Processes an image input inside an athena.preprocess span.
+   * @param request The image input to process.
+   * @param deploymentId The deployment the input will be sent to, if any.
+   * @param parent Optional span to parent the preprocessing span to.
+   * @returns The processed input.
+   */
+  private preprocess(
+    request: ClassifyImageInput,
+    deploymentId: string | undefined,
+    parent?: Span,
+  ): Promise<ClassificationInput> {
+    return this.telemetry.trace(
+      'athena.preprocess',
+      {
+        'athena.correlation_id': request.correlationId,
+        'athena.deployment_id': deploymentId,
+      },
+      async (span) => {
+        const input = await this.processImageInput(request);
+        span?.setAttribute('athena.correlation_id', input.correlationId);
+        parent?.setAttribute('athena.correlation_id', input.correlationId);
+        return input;
+      },
+      parent,
+    );
+  }
+
+  /**
+   * Records the latency and outcome of a streamed request and ends its span.
+   * @param routed The request that settled.
+   * @param span The request's athena.classify span, if any.
+   * @param err The error the request failed with, if any.
+   */
+  private recordStreamed(
+    routed: RoutedInput,
+    span?: Span,
+    err?: unknown,
+  ): void {
+    const attributes = {
+      'rpc.method': 'Classify',
+      'athena.deployment_id': routed.deploymentId,
     };
+    this.telemetry.recordDuration(
+      Date.now() - (routed.timings?.queued ?? Date.now()),
+      attributes,
+    );
+    if (err !== undefined) {
+      this.telemetry.recordError(err, attributes);
+    }
+    this.telemetry.endSpan(span, err);
+  }
+
+  /**
+   * Writes inputs to the classify stream, one request per deployment.
+   * @param inputs The processed inputs to send and their deployments.
+   * @throws AthenaTransportError if the gRPC stream is not open.
+   */
+  private async writeInputs(inputs: RoutedInput[]): Promise<void> {
+    if (!this.classifierGrpcCall) {
+      throw new AthenaTransportError(
+        'gRPC stream is not open. Call open() first.',
+      );
+    }
+
+    const byDeployment = new Map<string, RoutedInput[]>();
+    for (const routed of inputs) {
+      const group = byDeployment.get(routed.deploymentId) ?? [];
+      group.push(routed);
+      byDeployment.set(routed.deploymentId, group);
+    }
 
+    for (const [deploymentId, group] of byDeployment) {
+      this.telemetry.recordBatchSize(group.length, {
+        'athena.deployment_id': deploymentId,
+      });
+      await this.writeRequest({
+        deploymentId,
+        inputs: group.map(({ input }) => input),
+      });
+
+      const sent = Date.now();
+      for (const routed of group) {
+        if (routed.timings) {
+          routed.timings.sent = sent;
+        }
+      }
+      this.emit('requestSent', group.map(toRequestInfo));
+    }
+  }
+
+  /**
+   * Writes a request to the classify stream, waiting for drain if needed.
+   * Stops waiting if the call ends first; its pending requests are then
+   * rejected or resent with the rest of the stream's.
+   * @param classifyRequest The request to write.
+   */
+  private async writeRequest(classifyRequest: ClassifyRequest): Promise<void> {
+    this.resetIdleTimer();
+    const call = this.classifierGrpcCall;
+    if (!call || call.write(classifyRequest)) {
+      return;
+    }
+
+    const events = ['drain', 'end', 'error', 'close'] as const;
     await new Promise<void>((resolve) => {
-      if (
-        this.classifierGrpcCall &&
-        this.classifierGrpcCall.write(classifyRequest) == false
-      ) {
-        this.classifierGrpcCall.once('drain', resolve);
-      } else {
+      const done = (): void => {
+        for (const event of events) {
+          call.off(event, done);
+        }
         resolve();
+      };
+      for (const event of events) {
+        call.on(event, done);
       }
     });
   }
 
+  /**
+   * Classifies a single image with a unary call, without opening the stream.
+   * Image preprocessing runs once, even when the call is retried.
+   * @param request The image classification request options.
+   * @param options Optional timeout and AbortSignal covering preprocessing,
+   * token acquisition and the call itself, including any retries.
+   * @throws AthenaInputError if the request names a deploymentId.
+   * @throws AthenaTimeoutError or AthenaAbortError if the call is cut short.
+   * @returns Promise resolving to the classification output.
+   */
   public async classifySingle(
     request: ClassifyImageInput,
+    options: CallOptions = {},
   ): Promise<ClassificationOutput> {
-    const input = await this.processImageInput(request);
-    const metadata = await this.createMetadata();
+    if (request.deploymentId !== undefined) {
+      throw new AthenaInputError(
+        'classifySingle does not take a deploymentId; use classify to choose a deployment',
+      );
+    }
+
+    const signal = createCallSignal(options);
+    const deadline = createDeadline(options);
+    const input = await abortable(this.preprocess(request, undefined), signal);
+
+    return this.invokeUnary<ClassificationOutput>(
+      'ClassifySingle',
+      { 'athena.correlation_id': input.correlationId },
+      signal,
+      deadline,
+      (metadata, callOptions, callback) =>
+        this.client.classifySingle(input, metadata, callOptions, callback),
+    );
+  }
 
-    return new Promise<ClassificationOutput>((resolve, reject) => {
-      this.client.classifySingle(input, metadata, (err, response) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(response);
+  /**
+   * Closes the gRPC stream and cleans up resources.
+   * By default requests still awaiting a response are rejected straight away.
+   * With drain, new requests are rejected while responses to the ones already
+   * sent are awaited, until none remain or timeoutMs passes.
+   * Safe to call repeatedly: calls made while closing share its result, and
+   * calls made once closed resolve with an empty summary.
+   * Emits 'close' event.
+   * @param options Whether to drain outstanding requests, and for how long.
+   * @returns Promise resolving to the correlation IDs that completed and
+   * those that were abandoned.
+   */
+  public close(options: CloseOptions = {}): Promise<CloseSummary> {
+    if (!this.closingSummary) {
+      this.closingSummary = this.shutdown(options).finally(async () => {
+        if (this.ownsAuth) {
+          this.auth.stop?.();
         }
+        await this.recorder?.close();
+        this.closingSummary = null;
       });
+    }
+    return this.closingSummary;
+  }
+
+  /**
+   * Drains if requested, ends the call and moves to closed.
+   * @param options The close options.
+   */
+  private async shutdown(options: CloseOptions): Promise<CloseSummary> {
+    if (this.opening) {
+      await this.opening.catch(() => undefined);
+    }
+    this.shouldReconnect = false;
+
+    if (
+      this.connectionState !== 'open' &&
+      this.connectionState !== 'connecting' &&
+      !this.idleSuspended
+    ) {
+      return { completed: [], abandoned: [] };
+    }
+    this.idleSuspended = false;
+
+    this.setState('closing');
+
+    const call = this.classifierGrpcCall;
+    const sent = this.pending.list();
+    this.logger.info('Closing classify stream', {
+      drain: options.drain ?? false,
+      pending: sent.length,
+    });
+    const completed = new Set<string>();
+
+    if (options.drain && call) {
+      // Only outputs count: requests that time out or are aborted while
+      // draining leave the pending table too, but without a response.
+      const onSettled = (_result: unknown, request: RequestInfo): void => {
+        completed.add(request.correlationId);
+      };
+      this.on('output', onSettled);
+      this.on('outputError', onSettled);
+      await this.drain(options.timeoutMs);
+      this.off('output', onSettled);
+      this.off('outputError', onSettled);
+    }
+
+    if (call && this.classifierGrpcCall === call) {
+      void this.batcher?.flush();
+      this.endCall();
+    }
+    this.finish('closed');
+
+    const correlationIds = sent.map(({ correlationId }) => correlationId);
+    const summary = {
+      completed: correlationIds.filter((id) => completed.has(id)),
+      abandoned: correlationIds.filter((id) => !completed.has(id)),
+    };
+    this.logger.info('Classify stream closed', {
+      completed: summary.completed.length,
+      abandoned: summary.abandoned.length,
     });
+    return summary;
   }
 
   /**
-   * Closes the gRPC stream and cleans up resources.
-   * Emits 'close' event.
+   * Flushes any batched inputs and waits for every pending request to settle.
+   * @param timeoutMs Optional maximum time (ms) to wait.
    */
-  public close(): void {
-    if (this.classifierGrpcCall) {
-      if (this.keepAlive) {
-        clearInterval(this.keepAlive);
-      }
-      this.classifierGrpcCall.end();
-      this.classifierGrpcCall = null;
-      this.emit('close');
+  private async drain(timeoutMs?: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await this.batcher?.flush();
+      await Promise.race([
+        this.pending.whenEmpty(),
+        new Promise<void>((resolve) => {
+          if (timeoutMs !== undefined) {
+            timer = setTimeout(resolve, timeoutMs);
+          }
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Restarts the idle timer after traffic on the classify stream.
+   */
+  private resetIdleTimer(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+
+    const { idleTimeout } = this.options;
+    if (idleTimeout && idleTimeout > 0 && this.classifierGrpcCall) {
+      this.idleTimer = setTimeout(() => this.suspendIdle(), idleTimeout);
+      this.idleTimer.unref();
+    }
+  }
+
+  /**
+   * Ends the classify stream after idleTimeout with no traffic, unless
+   * requests are still in flight. The next classify call reopens it.
+   */
+  private suspendIdle(): void {
+    if (
+      this.connectionState !== 'open' ||
+      this.flow.inFlight > 0 ||
+      this.pending.size > 0 ||
+      (this.batcher?.size ?? 0) > 0
+    ) {
+      this.resetIdleTimer();
+      return;
+    }
+
+    this.logger.debug('Closing idle classify stream', {
+      idleTimeout: this.options.idleTimeout,
+    });
+    this.endCall();
+    this.idleSuspended = true;
+    this.setState('idle');
+  }
+
+  /**
+   * Half-closes the current call, if any, and stops its idle timer.
+   */
+  private endCall(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+    this.classifierGrpcCall?.end();
+    this.classifierGrpcCall = null;
+  }
+
+  /**
+   * Rejects outstanding requests, moves to a terminal state and emits 'close'.
+   * Does nothing if the stream has already closed or failed.
+   * @param state The terminal state.
+   */
+  private finish(state: 'closed' | 'failed'): void {
+    if (
+      this.connectionState === 'closed' ||
+      this.connectionState === 'failed'
+    ) {
+      return;
+    }
+
+    this.shouldReconnect = false;
+    this.rejectPending();
+    this.setState(state);
+    this.emit('close');
+  }
+
+  private setState(state: ConnectionState): void {
+    const previous = this.connectionState;
+    if (previous !== state) {
+      this.connectionState = state;
+      this.emit('stateChange', state, previous);
+    }
+  }
+
+  /**
+   * Rejects new requests while close() is draining the stream.
+   * @throws AthenaError if the SDK is closing.
+   */
+  private throwIfClosing(): void {
+    if (this.connectionState === 'closing') {
+      throw new AthenaError('ClassifierSdk is closing');
     }
   }
 
+  /**
+   * Number of streamed images waiting for an in-flight slot.
+   */
+  public get queueDepth(): number {
+    return this.flow.queued;
+  }
+
+  /**
+   * Number of streamed images being preprocessed, sent or awaiting a response.
+   */
+  public get inFlightCount(): number {
+    return this.flow.inFlight;
+  }
+
+  /**
+   * Rejects every request still waiting for a response on the stream.
+   */
+  private rejectPending(): void {
+    this.pending.rejectAll(
+      new AthenaTransportError(
+        'gRPC stream closed before a response was received',
+        { retryable: true },
+      ),
+    );
+  }
+
   public override on<U extends keyof ClassifierEvents>(
     event: U,
     listener: ClassifierEvents[U],
@@ -397,9 +1688,78 @@ export class ClassifierSdk extends EventEmitter {
 export * from './generated/athena/models.js';
 export { ClassifierServiceClient } from './generated/athena/athena.js';
 export * from './hashing.js';
+export * from './credentials.js';
+export * from './errors.js';
+export * from './logger.js';
+export { type TelemetryOptions } from './telemetry.js';
+export { type RequestInfo, type RequestTimings } from './pendingRequests.js';
+export { type CallOptions } from './callOptions.js';
+export { type BatchOptions, defaultBatchOptions } from './batcher.js';
+export {
+  type FlowControlOptions,
+  type FlowControlStats,
+} from './flowControl.js';
+export {
+  type RetryPolicy,
+  type RetryAttempt,
+  defaultRetryPolicy,
+} from './retry.js';
 export {
   type AuthenticationOptions,
   type AthenaAudience,
   VALID_AUDIENCES,
+  defaultIssuerUrl,
+  defaultRefreshMargin,
   parseAudience,
 } from './authenticationManager.js';
+export {
+  type AccessToken,
+  type TokenProvider,
+  type CallbackTokenProviderOptions,
+  type FileTokenProviderOptions,
+  StaticTokenProvider,
+  CallbackTokenProvider,
+  FileTokenProvider,
+} from './tokenProvider.js';
+export {
+  type ClientAuthenticationOptions,
+  type ClientSecretBasicOptions,
+  type ClientSecretJwtOptions,
+  type PrivateKeyJwtOptions,
+  type PrivateKeyJwtAlgorithm,
+} from './clientAuthentication.js';
+export {
+  type AthenaEnvironment,
+  type EnvironmentConfig,
+  type EnvironmentProfile,
+  type EnvironmentSettings,
+  type ResolvedEnvironment,
+  ATHENA_ENVIRONMENTS,
+  defaultGrpcAddress,
+  environmentProfiles,
+  readEnvironment,
+  resolveEnvironment,
+} from './environment.js';
+export {
+  type CachedToken,
+  type TokenCache,
+  type TokenCacheKeyOptions,
+  type FileTokenCacheOptions,
+  MemoryTokenCache,
+  FileTokenCache,
+  tokenCacheKey,
+} from './tokenCache.js';
+export {
+  type HealthCheckMode,
+  type HealthCheckOptions,
+  type HealthReport,
+  type HealthStageResult,
+  type HealthStatus,
+} from './health.js';
+export {
+  type RecordOptions,
+  type RecordedMessage,
+  type RecordedMethod,
+  ReplayTransport,
+  readRecording,
+} from './recording.js';
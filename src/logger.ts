@@ -0,0 +1,26 @@
+/**
+ * Structured context attached to a log message.
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Logger accepted by the SDK. Compatible with pino, winston and console-style
+ * loggers: each method is called with a message and optional context.
+ * Secrets and tokens are never included in either.
+ */
+export type Logger = {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+};
+
+/**
+ * Logger that discards every message. Used when no logger is configured.
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
@@ -0,0 +1,362 @@
+import type {
+  ClassificationInput,
+  ClassificationOutput,
+  ClassifyResponse,
+} from './generated/athena/models.js';
+import {
+  AthenaClassificationError,
+  AthenaInputError,
+  AthenaTimeoutError,
+} from './errors.js';
+
+/**
+ * Times (ms since the epoch) at which a streamed request reached each stage.
+ * @property queued When the classify call was made.
+ * @property preprocessed When the image had been hashed and prepared.
+ * @property sent When the request was last written to the classify stream.
+ * @property answered When the response was received.
+ */
+export type RequestTimings = {
+  queued: number;
+  preprocessed?: number | undefined;
+  sent?: number | undefined;
+  answered?: number | undefined;
+};
+
+/**
+ * A processed classification input and the deployment it is sent to.
+ * @property deploymentId The deployment the input is classified against.
+ * @property input The processed input.
+ * @property timings When the request reached each stage, if recorded.
+ */
+export type RoutedInput = {
+  deploymentId: string;
+  input: ClassificationInput;
+  timings?: RequestTimings | undefined;
+};
+
+/**
+ * What was sent for a streamed request, without the image data.
+ * @property correlationId The correlation ID of the request.
+ * @property deploymentId The deployment the request was sent to.
+ * @property affiliate The affiliate the request was sent for.
+ * @property format The format of the image that was sent.
+ * @property encoding The encoding of the image that was sent.
+ * @property hashes The hashes that were sent with the image.
+ * @property timings When the request reached each stage.
+ */
+export type RequestInfo = Pick<
+  ClassificationInput,
+  'correlationId' | 'affiliate' | 'format' | 'encoding' | 'hashes'
+> & {
+  deploymentId: string;
+  timings: RequestTimings;
+};
+
+/**
+ * Callbacks notified as pending requests are settled by responses.
+ * @property output Called for each output that completes a request.
+ * @property outputError Called for each output that carries an error.
+ * @property globalError Called for a response carrying a global error, with
+ * the requests it rejected.
+ */
+export type SettleListener = {
+  output?: (output: ClassificationOutput, request: RequestInfo) => void;
+  outputError?: (err: AthenaClassificationError, request: RequestInfo) => void;
+  globalError?: (
+    err: AthenaClassificationError,
+    requests: RequestInfo[],
+  ) => void;
+};
+
+/**
+ * Describes a routed input without its image data.
+ * @param routed The processed input and its deployment.
+ * @returns The request details, with empty timings if none were recorded.
+ */
+export function toRequestInfo({
+  deploymentId,
+  input,
+  timings,
+}: RoutedInput): RequestInfo {
+  const { correlationId, affiliate, format, encoding, hashes } = input;
+  return {
+    correlationId,
+    deploymentId,
+    affiliate,
+    format,
+    encoding,
+    hashes,
+    timings: timings ?? { queued: Date.now() },
+  };
+}
+
+/**
+ * A classification input that has been written to the classify stream and is
+ * waiting for its matching output.
+ * @property correlationId The correlation ID the output will be matched on.
+ * @property deploymentId The deployment the input was sent to.
+ * @property input The input that was sent.
+ * @property resolve Settles the request with its classification output.
+ * @property reject Settles the request with an error.
+ * @property timeout Timer that rejects the request if no output arrives.
+ */
+export type PendingRequest = RoutedInput & {
+  correlationId: string;
+  resolve: (output: ClassificationOutput) => void;
+  reject: (err: Error) => void;
+  timeout?: NodeJS.Timeout | undefined;
+};
+
+/**
+ * Key of a pending request: the deployment it was sent to and its
+ * correlation ID, which is unique among the requests pending on the stream.
+ */
+function requestKey(deploymentId: string, correlationId: string): string {
+  return JSON.stringify([deploymentId, correlationId]);
+}
+
+/**
+ * Table of in-flight classification requests keyed by deployment and
+ * correlation ID. Matches outputs received on the classify stream back to
+ * the caller that sent the corresponding input.
+ */
+export class PendingRequests {
+  private requests = new Map<string, PendingRequest>();
+  private deployments = new Map<string, string>();
+  private emptyWaiters: (() => void)[] = [];
+  private listener: SettleListener;
+
+  /**
+   * Creates a new PendingRequests table.
+   * @param listener Optional callbacks notified as responses settle requests.
+   */
+  constructor(listener: SettleListener = {}) {
+    this.listener = listener;
+  }
+
+  /**
+   * Number of requests still waiting for an output.
+   */
+  public get size(): number {
+    return this.requests.size;
+  }
+
+  /**
+   * Returns whether a request with the given correlation ID is pending.
+   * @param deploymentId The deployment the request was sent to.
+   * @param correlationId The correlation ID to look up.
+   */
+  public has(deploymentId: string, correlationId: string): boolean {
+    return this.requests.has(requestKey(deploymentId, correlationId));
+  }
+
+  /**
+   * Returns whether a request with the given correlation ID is pending on
+   * any deployment.
+   * @param correlationId The correlation ID to look up.
+   */
+  public isPending(correlationId: string): boolean {
+    return this.deployments.has(correlationId);
+  }
+
+  /**
+   * Returns the requests still waiting for an output, in the order sent.
+   */
+  public list(): PendingRequest[] {
+    return [...this.requests.values()];
+  }
+
+  /**
+   * Starts tracking an input that is about to be sent.
+   * The returned promise is marked as handled so that callers who never
+   * await it (fire-and-forget sends) do not cause unhandled rejections.
+   * Correlation IDs must be unique among the requests pending on the stream,
+   * whatever their deployment, since responses do not name their deployment
+   * and outputs are matched on correlation ID alone.
+   * @param routed The processed input being sent and its deployment.
+   * @param timeoutMs Optional time (ms) to wait for an output before rejecting.
+   * @returns Promise resolving to the matching classification output.
+   */
+  public track(
+    { deploymentId, input, timings }: RoutedInput,
+    timeoutMs?: number,
+  ): Promise<ClassificationOutput> {
+    const { correlationId } = input;
+
+    const promise = new Promise<ClassificationOutput>((resolve, reject) => {
+      if (this.deployments.has(correlationId)) {
+        reject(
+          new AthenaInputError(
+            `A request with correlationId ${correlationId} is already pending; correlation IDs must be unique on the stream`,
+            { correlationId },
+          ),
+        );
+        return;
+      }
+
+      const request: PendingRequest = {
+        correlationId,
+        deploymentId,
+        input,
+        timings,
+        resolve,
+        reject,
+      };
+
+      if (timeoutMs !== undefined && timeoutMs > 0) {
+        request.timeout = setTimeout(() => {
+          this.reject(
+            deploymentId,
+            correlationId,
+            new AthenaTimeoutError(
+              `Timed out after ${timeoutMs}ms waiting for a response to correlationId ${correlationId}`,
+              { correlationId },
+            ),
+          );
+        }, timeoutMs);
+      }
+
+      this.requests.set(requestKey(deploymentId, correlationId), request);
+      this.deployments.set(correlationId, deploymentId);
+    });
+
+    promise.catch(() => undefined);
+    return promise;
+  }
+
+  /**
+   * Settles pending requests from a classify response.
+   * Responses do not name their deployment, so each output settles the
+   * request pending with its correlation ID on any deployment. Outputs carrying
+   * an error reject their request. A global error rejects the requests named
+   * in the response or, when it names none, every pending request.
+   * @param response The response received from the classify stream.
+   */
+  public settle(response: ClassifyResponse): void {
+    const answered = Date.now();
+
+    if (response.globalError) {
+      const { globalError } = response;
+      const requests =
+        response.outputs.length === 0
+          ? this.list().map((request) =>
+              this.take(request.deploymentId, request.correlationId),
+            )
+          : response.outputs.map(({ correlationId }) =>
+              this.takeOutput(correlationId),
+            );
+      const rejected: RequestInfo[] = [];
+
+      for (const request of requests) {
+        if (request) {
+          rejected.push(this.answer(request, answered));
+          request.reject(
+            AthenaClassificationError.fromClassificationError(
+              globalError,
+              response.outputs.length === 0 ? undefined : request.correlationId,
+            ),
+          );
+        }
+      }
+
+      this.listener.globalError?.(
+        AthenaClassificationError.fromClassificationError(globalError),
+        rejected,
+      );
+      return;
+    }
+
+    for (const output of response.outputs) {
+      const request = this.takeOutput(output.correlationId);
+      if (!request) {
+        continue;
+      }
+
+      const info = this.answer(request, answered);
+      if (output.error) {
+        const err = AthenaClassificationError.fromClassificationError(
+          output.error,
+          output.correlationId,
+        );
+        request.reject(err);
+        this.listener.outputError?.(err, info);
+      } else {
+        request.resolve(output);
+        this.listener.output?.(output, info);
+      }
+    }
+  }
+
+  /**
+   * Rejects a single pending request.
+   * @param deploymentId The deployment the request was sent to.
+   * @param correlationId The correlation ID of the request to reject.
+   * @param err The error to reject with.
+   * @returns True if a pending request was rejected.
+   */
+  public reject(
+    deploymentId: string,
+    correlationId: string,
+    err: Error,
+  ): boolean {
+    const request = this.take(deploymentId, correlationId);
+    request?.reject(err);
+    return request !== undefined;
+  }
+
+  /**
+   * Rejects every pending request, e.g. when the stream closes.
+   * @param err The error to reject with.
+   */
+  public rejectAll(err: Error): void {
+    for (const { deploymentId, correlationId } of this.list()) {
+      this.reject(deploymentId, correlationId, err);
+    }
+  }
+
+  /**
+   * Waits until no requests are pending.
+   * @returns Promise that resolves once every pending request has settled.
+   */
+  public whenEmpty(): Promise<void> {
+    if (this.requests.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.emptyWaiters.push(resolve));
+  }
+
+  private answer(request: PendingRequest, answered: number): RequestInfo {
+    const info = toRequestInfo(request);
+    info.timings.answered = answered;
+    return info;
+  }
+
+  private take(
+    deploymentId: string,
+    correlationId: string,
+  ): PendingRequest | undefined {
+    const key = requestKey(deploymentId, correlationId);
+    const request = this.requests.get(key);
+    if (request) {
+      clearTimeout(request.timeout);
+      this.requests.delete(key);
+      this.deployments.delete(correlationId);
+      if (this.requests.size === 0) {
+        const waiters = this.emptyWaiters;
+        this.emptyWaiters = [];
+        for (const resolve of waiters) {
+          resolve();
+        }
+      }
+    }
+    return request;
+  }
+
+  private takeOutput(correlationId: string): PendingRequest | undefined {
+    const deploymentId = this.deployments.get(correlationId);
+    return deploymentId === undefined
+      ? undefined
+      : this.take(deploymentId, correlationId);
+  }
+}
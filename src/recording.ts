@@ -0,0 +1,410 @@
+import { createWriteStream, type WriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import * as grpc from '@grpc/grpc-js';
+import {
+  ClassificationInput,
+  ClassificationOutput,
+  ClassifyRequest,
+  ClassifyResponse,
+  ErrorCode,
+  ListDeploymentsResponse,
+} from './generated/athena/models.js';
+import { Empty } from './generated/google/protobuf/empty.js';
+import { AthenaInputError } from './errors.js';
+import { type Logger, silentLogger } from './logger.js';
+
+/**
+ * ClassifierService methods captured in a recording.
+ */
+export type RecordedMethod = 'Classify' | 'ClassifySingle' | 'ListDeployments';
+
+/**
+ * One line of a recording: a message sent or received on a call, or the
+ * status the call ended with. Messages are stored in protobuf JSON form.
+ * @property call Sequence number of the call within the recording.
+ * @property method The method called.
+ * @property type Whether this is a request, response or final status.
+ * @property time When the message was sent or received (ISO 8601).
+ * @property message The message, for requests and responses.
+ * @property code The gRPC status code, for statuses.
+ * @property details The status details, for statuses.
+ */
+export type RecordedMessage = {
+  call: number;
+  method: RecordedMethod;
+  type: 'request' | 'response' | 'status';
+  time: string;
+  message?: unknown;
+  code?: grpc.status;
+  details?: string;
+};
+
+/**
+ * Options for recording classification traffic.
+ * @property path File to append the recording to, one JSON message per line.
+ * @property redactImages Strip image data from recorded requests, keeping
+ * only their hashes (default false). Replaying a redacted recording matches
+ * inputs by hash or correlation ID, so keep includeHashes enabled.
+ */
+export type RecordOptions = {
+  path: string;
+  redactImages?: boolean | undefined;
+};
+
+type Codec = {
+  toJSON(message: never): unknown;
+  fromJSON(json: unknown): unknown;
+};
+
+const codecs: Record<RecordedMethod, { request: Codec; response: Codec }> = {
+  Classify: { request: ClassifyRequest, response: ClassifyResponse },
+  ClassifySingle: {
+    request: ClassificationInput,
+    response: ClassificationOutput,
+  },
+  ListDeployments: { request: Empty, response: ListDeploymentsResponse },
+};
+
+/**
+ * Extracts the method name from a gRPC path such as
+ * `/athena.ClassifierService/Classify`.
+ * @returns The method, or undefined if it is not recorded.
+ */
+function methodFromPath(path: string): RecordedMethod | undefined {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name in codecs ? (name as RecordedMethod) : undefined;
+}
+
+function redact(input: ClassificationInput): ClassificationInput {
+  return { ...input, data: Buffer.alloc(0) };
+}
+
+/**
+ * Records every ClassifierService exchange made through its interceptor to a
+ * JSON Lines file. Created by ClassifierSdk when the `record` option is set.
+ * If the file cannot be written, recording stops and the error is logged;
+ * calls carry on unaffected.
+ */
+export class TrafficRecorder {
+  private stream: WriteStream | null = null;
+  private failed = false;
+  private calls = 0;
+
+  /**
+   * Creates a new TrafficRecorder.
+   * @param options The file to record to and whether to redact image data.
+   * @param logger Optional logger for failures to write the recording.
+   */
+  constructor(
+    private readonly options: RecordOptions,
+    private readonly logger: Logger = silentLogger,
+  ) {}
+
+  /**
+   * Client interceptor that records each call's requests, responses and status.
+   */
+  public readonly interceptor: grpc.Interceptor = (options, nextCall) => {
+    const method = methodFromPath(options.method_definition.path);
+    if (!method) {
+      return new grpc.InterceptingCall(nextCall(options));
+    }
+
+    const call = ++this.calls;
+    const record = (
+      entry: Pick<RecordedMessage, 'type' | 'message' | 'code' | 'details'>,
+    ): void =>
+      this.write({
+        call,
+        method,
+        time: new Date().toISOString(),
+        ...entry,
+      });
+
+    return new grpc.InterceptingCall(nextCall(options), {
+      start: (metadata, _listener, next) =>
+        next(metadata, {
+          onReceiveMessage: (message, nextMessage) => {
+            record({
+              type: 'response',
+              message: codecs[method].response.toJSON(message as never),
+            });
+            nextMessage(message);
+          },
+          onReceiveStatus: (status, nextStatus) => {
+            record({
+              type: 'status',
+              code: status.code,
+              details: status.details,
+            });
+            nextStatus(status);
+          },
+        }),
+      sendMessage: (message, next): void => {
+        record({
+          type: 'request',
+          message: codecs[method].request.toJSON(
+            this.redact(method, message) as never,
+          ),
+        });
+        next(message);
+      },
+    });
+  };
+
+  /**
+   * Flushes and closes the recording file. Later calls reopen it for appending.
+   */
+  public async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      await new Promise<void>((resolve) => stream.end(resolve));
+    }
+  }
+
+  private redact(method: RecordedMethod, message: unknown): unknown {
+    if (!this.options.redactImages) {
+      return message;
+    }
+    switch (method) {
+      case 'Classify':
+        return {
+          ...(message as ClassifyRequest),
+          inputs: (message as ClassifyRequest).inputs.map(redact),
+        };
+      case 'ClassifySingle':
+        return redact(message as ClassificationInput);
+      default:
+        return message;
+    }
+  }
+
+  private write(entry: RecordedMessage): void {
+    if (this.failed) {
+      return;
+    }
+    if (!this.stream) {
+      const stream = createWriteStream(this.options.path, { flags: 'a' });
+      stream.on('error', (err) => {
+        this.failed = true;
+        if (this.stream === stream) {
+          this.stream = null;
+        }
+        this.logger.error('Failed to write recording; recording stopped', {
+          path: this.options.path,
+          error: err.message,
+        });
+      });
+      this.stream = stream;
+    }
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Reads a recording written by TrafficRecorder.
+ * @param path The recording file.
+ * @throws AthenaInputError if a line is not valid JSON.
+ * @returns Promise resolving to the recorded messages, in order.
+ */
+export async function readRecording(path: string): Promise<RecordedMessage[]> {
+  const lines = (await readFile(path, 'utf8')).split('\n');
+
+  return lines.flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+    try {
+      return [JSON.parse(line) as RecordedMessage];
+    } catch (err) {
+      throw new AthenaInputError(
+        `Invalid recording ${path} at line ${index + 1}`,
+        { cause: err },
+      );
+    }
+  });
+}
+
+/**
+ * Intercepting call that completes each write as soon as the replay has
+ * handled it. Messages never reach the channel, so nothing else would call
+ * back, and a stream would hold every write after its first.
+ */
+class ReplayCall extends grpc.InterceptingCall {
+  public override sendMessageWithContext(
+    context: { callback?: ((error?: Error | null) => void) | undefined },
+    message: unknown,
+  ): void {
+    super.sendMessageWithContext(context, message);
+    context.callback?.();
+  }
+}
+
+/**
+ * Serves recorded responses in place of the Athena service, without any
+ * network access. Pass it to ClassifierSdk as the `replay` option.
+ *
+ * Each input is answered with the recorded output for the same correlation
+ * ID or, failing that, for an input with a matching hash. Inputs with no
+ * recorded output get an output error on the stream, or NOT_FOUND from
+ * classifySingle. listDeployments returns the last recorded deployments.
+ */
+export class ReplayTransport {
+  private byCorrelationId = new Map<string, ClassificationOutput>();
+  private byHash = new Map<string, ClassificationOutput>();
+  private deployments = ListDeploymentsResponse.fromPartial({});
+
+  /**
+   * Creates a new ReplayTransport.
+   * @param messages The recorded messages, e.g. from readRecording().
+   */
+  constructor(messages: RecordedMessage[]) {
+    const inputs = new Map<string, ClassificationInput>();
+    const outputs: ClassificationOutput[] = [];
+
+    for (const { method, type, message } of messages) {
+      if (type === 'status' || !codecs[method]) {
+        continue;
+      }
+      const decoded = codecs[method][type].fromJSON(message);
+
+      if (method === 'Classify' && type === 'request') {
+        for (const input of (decoded as ClassifyRequest).inputs) {
+          inputs.set(input.correlationId, input);
+        }
+      } else if (method === 'Classify') {
+        outputs.push(...(decoded as ClassifyResponse).outputs);
+      } else if (method === 'ClassifySingle' && type === 'request') {
+        const input = decoded as ClassificationInput;
+        inputs.set(input.correlationId, input);
+      } else if (method === 'ClassifySingle') {
+        outputs.push(decoded as ClassificationOutput);
+      } else if (type === 'response') {
+        this.deployments = decoded as ListDeploymentsResponse;
+      }
+    }
+
+    for (const output of outputs) {
+      this.byCorrelationId.set(output.correlationId, output);
+      for (const { value } of inputs.get(output.correlationId)?.hashes ?? []) {
+        this.byHash.set(value, output);
+      }
+    }
+  }
+
+  /**
+   * Loads a recording written by TrafficRecorder.
+   * @param path The recording file.
+   * @returns Promise resolving to a transport replaying it.
+   */
+  public static async fromFile(path: string): Promise<ReplayTransport> {
+    return new ReplayTransport(await readRecording(path));
+  }
+
+  /**
+   * Finds the recorded output for an input.
+   * @param input The classification input.
+   * @returns The output, with the input's correlation ID, or undefined.
+   */
+  public outputFor(
+    input: ClassificationInput,
+  ): ClassificationOutput | undefined {
+    const recorded =
+      this.byCorrelationId.get(input.correlationId) ??
+      input.hashes
+        .map(({ value }) => this.byHash.get(value))
+        .find((output) => output !== undefined);
+
+    return recorded && { ...recorded, correlationId: input.correlationId };
+  }
+
+  /**
+   * Client interceptor that answers every call from the recording instead of
+   * passing it on to the channel.
+   */
+  public readonly interceptor: grpc.Interceptor = (options, nextCall) => {
+    const method = methodFromPath(options.method_definition.path);
+    const unused = nextCall(options);
+    let listener: grpc.InterceptingListener | null = null;
+    let ended = false;
+
+    const receive = (message: unknown): void => {
+      setImmediate(() => {
+        if (!ended) {
+          listener?.onReceiveMessage(message);
+        }
+      });
+    };
+    const end = (code: grpc.status, details: string): void => {
+      setImmediate(() => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+        listener?.onReceiveStatus({
+          code,
+          details,
+          metadata: new grpc.Metadata(),
+        });
+        // Clears the deadline timer of the call that was never started.
+        unused.cancelWithStatus(code, details);
+      });
+    };
+
+    return new ReplayCall(unused, {
+      start: (_metadata, interceptingListener): void => {
+        listener = interceptingListener;
+        listener.onReceiveMetadata(new grpc.Metadata());
+        if (!method) {
+          end(grpc.status.UNIMPLEMENTED, 'Method not recorded');
+        }
+      },
+      sendMessage: (message): void => {
+        switch (method) {
+          case 'Classify':
+            if ((message as ClassifyRequest).inputs.length > 0) {
+              receive(
+                ClassifyResponse.fromPartial({
+                  outputs: (message as ClassifyRequest).inputs.map((input) =>
+                    this.replayOutput(input),
+                  ),
+                }),
+              );
+            }
+            break;
+          case 'ClassifySingle': {
+            const input = message as ClassificationInput;
+            const output = this.outputFor(input);
+            if (output) {
+              receive(output);
+            } else {
+              end(
+                grpc.status.NOT_FOUND,
+                `No recorded response for ${input.correlationId}`,
+              );
+            }
+            break;
+          }
+          case 'ListDeployments':
+            receive(this.deployments);
+            break;
+        }
+      },
+      halfClose: () => end(grpc.status.OK, 'OK'),
+      cancel: () => end(grpc.status.CANCELLED, 'Cancelled on client'),
+    });
+  };
+
+  private replayOutput(input: ClassificationInput): ClassificationOutput {
+    return (
+      this.outputFor(input) ??
+      ClassificationOutput.fromPartial({
+        correlationId: input.correlationId,
+        error: {
+          code: ErrorCode.ERROR_CODE_UNSPECIFIED,
+          message: `No recorded response for ${input.correlationId}`,
+        },
+      })
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import * as grpc from '@grpc/grpc-js';
+import {
+  type BackoffOptions,
+  computeBackoffDelay,
+  defaultBackoffOptions,
+  delay,
+} from './backoff.js';
+import { abortable } from './callOptions.js';
+
+/**
+ * Details of a single attempt, passed to the retry policy's onAttempt hook.
+ * @property attempt The 1-based attempt number.
+ * @property error The error the attempt failed with, if it failed.
+ * @property willRetry Whether another attempt will be made.
+ * @property delay Delay (ms) before the next attempt, if one will be made.
+ */
+export type RetryAttempt = {
+  attempt: number;
+  error?: Error | undefined;
+  willRetry: boolean;
+  delay?: number | undefined;
+};
+
+/**
+ * Retry policy for unary RPCs.
+ * @property maxAttempts Maximum number of attempts, including the first (default 3).
+ * @property initialDelay Delay (ms) before the first retry (default 500).
+ * @property maxDelay Upper bound (ms) for the delay between attempts, including
+ * delays requested by the server (default 30000).
+ * @property multiplier Factor the delay grows by after each attempt (default 2).
+ * @property jitter Fraction (0-1) of each delay to randomise (default 0.2).
+ * @property retryableStatusCodes gRPC status codes that are retried
+ * (default UNAVAILABLE, DEADLINE_EXCEEDED and RESOURCE_EXHAUSTED).
+ * @property onAttempt Optional hook called after every attempt.
+ */
+export type RetryPolicy = Partial<BackoffOptions> & {
+  maxAttempts?: number;
+  retryableStatusCodes?: grpc.status[];
+  onAttempt?: ((attempt: RetryAttempt) => void) | undefined;
+};
+
+export const defaultRetryPolicy: Required<RetryPolicy> = {
+  ...defaultBackoffOptions,
+  maxAttempts: 3,
+  retryableStatusCodes: [
+    grpc.status.UNAVAILABLE,
+    grpc.status.DEADLINE_EXCEEDED,
+    grpc.status.RESOURCE_EXHAUSTED,
+  ],
+  onAttempt: undefined,
+};
+
+/**
+ * Reads a server-provided retry delay from a gRPC error's metadata.
+ * Supports the `grpc-retry-pushback-ms` and `retry-after-ms` keys in
+ * milliseconds and `retry-after` in seconds.
+ * @param err The error returned by the call.
+ * @returns The delay in milliseconds, or undefined if none was provided.
+ */
+export function getRetryAfter(err: unknown): number | undefined {
+  const metadata = (err as Partial<grpc.ServiceError> | undefined)?.metadata;
+  if (!(metadata instanceof grpc.Metadata)) {
+    return undefined;
+  }
+
+  for (const [key, scale] of [
+    ['grpc-retry-pushback-ms', 1],
+    ['retry-after-ms', 1],
+    ['retry-after', 1000],
+  ] as const) {
+    const [value] = metadata.get(key);
+    const parsed = value === undefined ? NaN : Number(value.toString());
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      return parsed * scale;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns whether the error is a gRPC error with a retryable status code.
+ * @param err The error returned by the call.
+ * @param policy The retry policy.
+ */
+export function isRetryable(
+  err: unknown,
+  policy: Required<RetryPolicy>,
+): boolean {
+  const code = (err as Partial<grpc.ServiceError> | undefined)?.code;
+  return typeof code === 'number' && policy.retryableStatusCodes.includes(code);
+}
+
+/**
+ * Runs an operation, retrying retryable failures with exponential backoff.
+ * A server-provided retry delay takes precedence over the computed backoff,
+ * but is capped at maxDelay so that a misbehaving server cannot stall callers.
+ * @param operation The operation to run, given the 1-based attempt number.
+ * @param policy The retry policy.
+ * @param signal Optional AbortSignal; no further attempts are made once it fires.
+ * @returns The result of the first successful attempt.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await operation(attempt);
+      policy.onAttempt?.({ attempt, willRetry: false });
+      return result;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const willRetry =
+        attempt < policy.maxAttempts &&
+        !signal?.aborted &&
+        isRetryable(err, policy);
+      const wait = willRetry
+        ? Math.min(
+            getRetryAfter(err) ?? computeBackoffDelay(attempt, policy),
+            policy.maxDelay,
+          )
+        : undefined;
+
+      policy.onAttempt?.({ attempt, error, willRetry, delay: wait });
+
+      if (!willRetry) {
+        throw err;
+      }
+
+      await abortable(delay(wait), signal);
+    }
+  }
+}
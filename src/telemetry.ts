@@ -0,0 +1,244 @@
+import { createRequire } from 'module';
+import type * as grpc from '@grpc/grpc-js';
+import type * as otel from '@opentelemetry/api';
+import {
+  AthenaClassificationError,
+  AthenaInputError,
+  AthenaTransportError,
+} from './errors.js';
+
+/**
+ * OpenTelemetry instrumentation settings. Requires the optional
+ * `@opentelemetry/api` peer dependency.
+ * @property tracerProvider Provider to create the SDK's tracer from (default the global provider).
+ * @property meterProvider Provider to create the SDK's meter from (default the global provider).
+ */
+export type TelemetryOptions = {
+  tracerProvider?: otel.TracerProvider;
+  meterProvider?: otel.MeterProvider;
+};
+
+/**
+ * Attributes recorded on the SDK's spans and metrics.
+ */
+export type TelemetryAttributes = Record<string, string | number | undefined>;
+
+const instrumentationName = '@crispthinking/athena-classifier-sdk';
+
+type Instruments = {
+  duration: otel.Histogram;
+  batchSize: otel.Histogram;
+  queueDepth: otel.ObservableGauge;
+  errors: otel.Counter;
+};
+
+/**
+ * Spans and metrics for the SDK, built on the `@opentelemetry/api` peer
+ * dependency. Every method is a no-op when instrumentation is disabled.
+ *
+ * Spans: athena.preprocess, athena.token.fetch, athena.classify (one per
+ * streamed image, from submission to response) and one per unary RPC.
+ * Metrics: athena.client.request.duration, athena.client.batch.size,
+ * athena.client.queue.depth and athena.client.errors.
+ */
+export class Telemetry {
+  private api: typeof otel | null = null;
+  private tracer?: otel.Tracer;
+  private instruments?: Instruments;
+
+  /**
+   * Creates a new Telemetry instance.
+   * @param options Instrumentation settings, true to use the global
+   * providers, or false/undefined to disable instrumentation.
+   * @throws AthenaInputError if enabled and `@opentelemetry/api` is not installed.
+   */
+  constructor(options?: TelemetryOptions | boolean) {
+    if (!options) {
+      return;
+    }
+
+    try {
+      const require = createRequire(import.meta.url);
+      this.api = require('@opentelemetry/api') as typeof otel;
+    } catch (err) {
+      throw new AthenaInputError(
+        'Telemetry requires the @opentelemetry/api package to be installed',
+        { cause: err },
+      );
+    }
+
+    const { tracerProvider, meterProvider } = options === true ? {} : options;
+    this.tracer = (tracerProvider ?? this.api.trace).getTracer(
+      instrumentationName,
+    );
+
+    const meter = (meterProvider ?? this.api.metrics).getMeter(
+      instrumentationName,
+    );
+    this.instruments = {
+      duration: meter.createHistogram('athena.client.request.duration', {
+        description: 'Time from submitting a request to receiving its response',
+        unit: 'ms',
+      }),
+      batchSize: meter.createHistogram('athena.client.batch.size', {
+        description: 'Number of images in each ClassifyRequest sent',
+      }),
+      queueDepth: meter.createObservableGauge('athena.client.queue.depth', {
+        description: 'Number of images waiting for an in-flight slot',
+      }),
+      errors: meter.createCounter('athena.client.errors', {
+        description: 'Number of failed requests',
+      }),
+    };
+  }
+
+  /**
+   * Whether instrumentation is enabled.
+   */
+  public get enabled(): boolean {
+    return this.api !== null;
+  }
+
+  /**
+   * Runs an operation inside an active span, which records any error it throws.
+   * @param name The span name.
+   * @param attributes Attributes to set on the span.
+   * @param operation The operation, given the span to add attributes to.
+   * @param parent Optional span to parent the new span to instead of the active one.
+   * @returns The operation's result.
+   */
+  public async trace<T>(
+    name: string,
+    attributes: TelemetryAttributes,
+    operation: (span?: otel.Span) => Promise<T>,
+    parent?: otel.Span,
+  ): Promise<T> {
+    if (!this.api) {
+      return operation();
+    }
+
+    const { context, trace } = this.api;
+    const parentContext = parent
+      ? trace.setSpan(context.active(), parent)
+      : context.active();
+
+    return this.tracer.startActiveSpan(
+      name,
+      { attributes: clean(attributes) },
+      parentContext,
+      async (span) => {
+        try {
+          const result = await operation(span);
+          this.endSpan(span);
+          return result;
+        } catch (err) {
+          this.endSpan(span, err);
+          throw err;
+        }
+      },
+    );
+  }
+
+  /**
+   * Starts a span that is ended separately with endSpan().
+   * @param name The span name.
+   * @param attributes Attributes to set on the span.
+   * @returns The span, or undefined when instrumentation is disabled.
+   */
+  public startSpan(
+    name: string,
+    attributes: TelemetryAttributes,
+  ): otel.Span | undefined {
+    return this.tracer?.startSpan(name, { attributes: clean(attributes) });
+  }
+
+  /**
+   * Ends a span, recording the error if the operation failed.
+   * @param span The span to end, if any.
+   * @param err The error the operation failed with, if any.
+   */
+  public endSpan(span: otel.Span | undefined, err?: unknown): void {
+    if (!span || !this.api) {
+      return;
+    }
+
+    if (err !== undefined) {
+      if (err instanceof Error) {
+        span.recordException(err);
+      }
+      span.setStatus({
+        code: this.api.SpanStatusCode.ERROR,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+    span.end();
+  }
+
+  /**
+   * Adds the active trace context to outgoing gRPC metadata using the
+   * globally registered propagator.
+   * @param metadata The metadata to add the trace context to.
+   */
+  public inject(metadata: grpc.Metadata): void {
+    this.api?.propagation.inject(this.api.context.active(), metadata, {
+      set: (carrier, key, value) => carrier.set(key, value),
+    });
+  }
+
+  /**
+   * Records how long a request took.
+   * @param durationMs The duration (ms).
+   * @param attributes Attributes describing the request.
+   */
+  public recordDuration(
+    durationMs: number,
+    attributes: TelemetryAttributes,
+  ): void {
+    this.instruments?.duration.record(durationMs, clean(attributes));
+  }
+
+  /**
+   * Records the number of images in a ClassifyRequest.
+   * @param size The number of images.
+   * @param attributes Attributes describing the request.
+   */
+  public recordBatchSize(size: number, attributes: TelemetryAttributes): void {
+    this.instruments?.batchSize.record(size, clean(attributes));
+  }
+
+  /**
+   * Counts a failed request by error type and Athena error code or gRPC
+   * status code.
+   * @param err The error the request failed with.
+   * @param attributes Attributes describing the request.
+   */
+  public recordError(err: unknown, attributes: TelemetryAttributes): void {
+    this.instruments?.errors.add(
+      1,
+      clean({
+        ...attributes,
+        'error.type': err instanceof Error ? err.name : typeof err,
+        'athena.error_code':
+          err instanceof AthenaClassificationError ? err.code : undefined,
+        'rpc.grpc.status_code':
+          err instanceof AthenaTransportError ? err.code : undefined,
+      }),
+    );
+  }
+
+  /**
+   * Reports the queue depth whenever metrics are collected.
+   * @param queueDepth Returns the current queue depth.
+   */
+  public observeQueueDepth(queueDepth: () => number): void {
+    this.instruments?.queueDepth.addCallback((result) =>
+      result.observe(queueDepth()),
+    );
+  }
+}
+
+function clean(attributes: TelemetryAttributes): otel.Attributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  );
+}
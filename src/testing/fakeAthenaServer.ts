@@ -0,0 +1,504 @@
+import * as grpc from '@grpc/grpc-js';
+import {
+  ClassifierServiceService,
+  type ClassifierServiceServer,
+} from '../generated/athena/athena.js';
+import {
+  ClassificationOutput,
+  ClassifyResponse,
+  ListDeploymentsResponse,
+  type ClassificationError,
+  type ClassificationInput,
+  type ClassifyRequest,
+  type Deployment,
+} from '../generated/athena/models.js';
+import { delay } from '../backoff.js';
+import type { FakeOidcIssuer } from './fakeOidcIssuer.js';
+
+/**
+ * A scripted classification result: the classifications to return, or an
+ * error for the output. The correlation ID is filled in from the request.
+ */
+export type FakeOutput = Partial<Omit<ClassificationOutput, 'correlationId'>>;
+
+/**
+ * ClassifierService methods the fake server implements.
+ */
+export type FakeMethod = 'classify' | 'classifySingle' | 'listDeployments';
+
+/**
+ * A misbehaviour to inject into the fake server's responses.
+ * - latency: delay the response by delayMs.
+ * - status: fail the call with a gRPC status, e.g. UNAVAILABLE or
+ *   UNAUTHENTICATED. Ends the whole stream when applied to classify.
+ * - reset: classify only. Send the first afterOutputs outputs (default 0),
+ *   then reset the stream.
+ * - partialOutputs: classify only. Return only the first `count` outputs;
+ *   the rest are never answered.
+ * - outOfOrder: classify only. Return each output in its own response, in
+ *   reverse order.
+ * - globalError: classify only. Return a globalError instead of outputs.
+ *
+ * Per-output errors are scripted with respondTo(), e.g.
+ * `respondTo(id, { error: { code: ErrorCode.ERROR_CODE_IMAGE_TOO_LARGE, message } })`.
+ */
+export type FakeFaultKind =
+  | { type: 'latency'; delayMs: number }
+  | { type: 'status'; code: grpc.status; details?: string }
+  | { type: 'reset'; afterOutputs?: number }
+  | { type: 'partialOutputs'; count: number }
+  | { type: 'outOfOrder' }
+  | { type: 'globalError'; error: Partial<ClassificationError> };
+
+/**
+ * A fault and the calls it applies to.
+ * @property method Method the fault applies to (default every method for
+ * latency and status, classify for the rest).
+ * @property times Number of calls, or ClassifyRequests on the stream, the fault
+ * applies to before it is removed (default 1; Infinity to keep it).
+ */
+export type FakeFault = FakeFaultKind & {
+  method?: FakeMethod;
+  times?: number;
+};
+
+/**
+ * An input received by the fake server.
+ * @property method The method it was received on.
+ * @property deploymentId The deployment of its ClassifyRequest, for classify.
+ * @property input The classification input as received.
+ */
+export type FakeReceivedInput = {
+  method: Extract<FakeMethod, 'classify' | 'classifySingle'>;
+  deploymentId?: string | undefined;
+  input: ClassificationInput;
+};
+
+const streamOnlyFaults: FakeFaultKind['type'][] = [
+  'reset',
+  'partialOutputs',
+  'outOfOrder',
+  'globalError',
+];
+
+type ActiveFault = FakeFault & { remaining: number };
+
+type InputWaiter = { count: number; resolve: () => void };
+
+/**
+ * Options for the fake Athena server.
+ * @property deployments Deployments returned by ListDeployments (default none).
+ * @property defaultOutput Output for inputs with no scripted response, or a
+ * function computing it from the input (default no classifications).
+ * @property issuer Issuer whose tokens must be presented. When unset, any
+ * bearer token is accepted.
+ */
+export type FakeAthenaServerOptions = {
+  deployments?: Deployment[];
+  defaultOutput?:
+    | FakeOutput
+    | ((input: ClassificationInput, deploymentId?: string) => FakeOutput);
+  issuer?: FakeOidcIssuer;
+};
+
+/**
+ * In-process grpc-js server implementing ClassifierService over a plaintext
+ * local port. Responses are scripted per correlation ID or image hash, so
+ * tests can run the SDK against real sockets without network access.
+ *
+ * Point the SDK at it with `grpcAddress: server.address` and
+ * `credentials: { type: 'insecure' }`.
+ */
+export class FakeAthenaServer {
+  private server: grpc.Server | null = null;
+  private port = 0;
+  private deployments: Deployment[];
+  private defaultOutput: NonNullable<FakeAthenaServerOptions['defaultOutput']>;
+  private issuer?: FakeOidcIssuer | undefined;
+  private byCorrelationId = new Map<string, FakeOutput>();
+  private byHash = new Map<string, FakeOutput>();
+  private faults: ActiveFault[] = [];
+  private requests: ClassifyRequest[] = [];
+  private inputs: FakeReceivedInput[] = [];
+  private inputWaiters: InputWaiter[] = [];
+
+  /**
+   * Creates a new FakeAthenaServer. Call start() before use.
+   * @param options Deployments, default output and token verification.
+   */
+  constructor(options: FakeAthenaServerOptions = {}) {
+    this.deployments = options.deployments ?? [];
+    this.defaultOutput = options.defaultOutput ?? { classifications: [] };
+    this.issuer = options.issuer;
+  }
+
+  /**
+   * The address to configure the SDK with, e.g. `127.0.0.1:50051`.
+   * @throws Error if the server has not been started.
+   */
+  public get address(): string {
+    if (!this.server) {
+      throw new Error('FakeAthenaServer has not been started');
+    }
+    return `127.0.0.1:${this.port}`;
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   * @param port The port to listen on (default a free port).
+   * @returns Promise resolving to the server address.
+   */
+  public async start(port = 0): Promise<string> {
+    const server = new grpc.Server();
+    server.addService(ClassifierServiceService, this.implementation());
+
+    this.port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync(
+        `127.0.0.1:${port}`,
+        grpc.ServerCredentials.createInsecure(),
+        (err, boundPort) => (err ? reject(err) : resolve(boundPort)),
+      ),
+    );
+    this.server = server;
+    return this.address;
+  }
+
+  /**
+   * Stops the server, cancelling any open calls.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    server?.forceShutdown();
+  }
+
+  /**
+   * Replaces the deployments returned by ListDeployments.
+   * @param deployments The deployments.
+   */
+  public setDeployments(deployments: Deployment[]): void {
+    this.deployments = deployments;
+  }
+
+  /**
+   * Scripts the output for a correlation ID. Takes precedence over hashes.
+   * @param correlationId The correlation ID of the input.
+   * @param output The output to return.
+   */
+  public respondTo(correlationId: string, output: FakeOutput): void {
+    this.byCorrelationId.set(correlationId, output);
+  }
+
+  /**
+   * Scripts the output for any input carrying a hash value.
+   * @param hash The hash value, e.g. an MD5 or SHA1 hex digest.
+   * @param output The output to return.
+   */
+  public respondToHash(hash: string, output: FakeOutput): void {
+    this.byHash.set(hash, output);
+  }
+
+  /**
+   * Injects a fault into the responses to upcoming calls. Faults apply in the
+   * order injected; a call can be affected by several.
+   * @param fault The fault, and the calls it applies to.
+   */
+  public injectFault(fault: FakeFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Removes every injected fault.
+   */
+  public clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * ClassifyRequests received on classify streams, in the order received,
+   * including empty ones.
+   */
+  public get classifyRequests(): ClassifyRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Inputs received by classify and classifySingle, in the order received.
+   */
+  public get receivedInputs(): FakeReceivedInput[] {
+    return [...this.inputs];
+  }
+
+  /**
+   * Waits until at least `count` inputs have been received.
+   * @param count The number of inputs to wait for.
+   * @param timeoutMs Maximum time (ms) to wait (default 5000).
+   * @throws Error if fewer inputs arrive within timeoutMs.
+   * @returns Promise resolving to the inputs received.
+   */
+  public async waitForInputs(
+    count: number,
+    timeoutMs = 5000,
+  ): Promise<FakeReceivedInput[]> {
+    if (this.inputs.length < count) {
+      let timer: NodeJS.Timeout | undefined;
+      const waiter: InputWaiter = { count, resolve: () => undefined };
+      try {
+        await new Promise<void>((resolve, reject) => {
+          waiter.resolve = resolve;
+          this.inputWaiters.push(waiter);
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `Received ${this.inputs.length} of ${count} inputs within ${timeoutMs}ms`,
+                ),
+              ),
+            timeoutMs,
+          );
+        });
+      } finally {
+        clearTimeout(timer);
+        this.inputWaiters = this.inputWaiters.filter((w) => w !== waiter);
+      }
+    }
+    return this.receivedInputs;
+  }
+
+  /**
+   * Clears every scripted output, injected fault and received request.
+   */
+  public reset(): void {
+    this.byCorrelationId.clear();
+    this.byHash.clear();
+    this.faults = [];
+    this.requests = [];
+    this.inputs = [];
+  }
+
+  /**
+   * Computes the output for an input from the scripted responses.
+   * @param input The classification input.
+   * @param deploymentId The deployment the input was sent to, if any.
+   */
+  protected outputFor(
+    input: ClassificationInput,
+    deploymentId?: string,
+  ): ClassificationOutput {
+    const scripted =
+      this.byCorrelationId.get(input.correlationId) ??
+      input.hashes
+        .map(({ value }) => this.byHash.get(value))
+        .find((output) => output !== undefined) ??
+      (typeof this.defaultOutput === 'function'
+        ? this.defaultOutput(input, deploymentId)
+        : this.defaultOutput);
+
+    return ClassificationOutput.fromPartial({
+      ...scripted,
+      correlationId: input.correlationId,
+    });
+  }
+
+  /**
+   * Checks the bearer token on a call.
+   * @param metadata The call's metadata.
+   * @returns An UNAUTHENTICATED status if the token is missing or rejected.
+   */
+  protected authenticate(
+    metadata: grpc.Metadata,
+  ): Partial<grpc.StatusObject> | null {
+    const [authorization] = metadata.get('authorization');
+    const token =
+      typeof authorization === 'string'
+        ? /^bearer (.+)$/i.exec(authorization)?.[1]
+        : undefined;
+
+    if (!token) {
+      return {
+        code: grpc.status.UNAUTHENTICATED,
+        details: 'Missing bearer token',
+      };
+    }
+    if (this.issuer && !this.issuer.verify(token)) {
+      return {
+        code: grpc.status.UNAUTHENTICATED,
+        details: 'Invalid or expired bearer token',
+      };
+    }
+    return null;
+  }
+
+  private record(received: FakeReceivedInput[]): void {
+    this.inputs.push(...received);
+    for (const waiter of this.inputWaiters) {
+      if (this.inputs.length >= waiter.count) {
+        waiter.resolve();
+      }
+    }
+  }
+
+  /**
+   * Takes the faults applying to a call, removing those that are used up.
+   */
+  private takeFaults(method: FakeMethod): FakeFaultKind[] {
+    const applicable = this.faults.filter((fault) => {
+      const streamOnly = streamOnlyFaults.includes(fault.type);
+      const target = fault.method ?? (streamOnly ? 'classify' : method);
+      return target === method && (method === 'classify' || !streamOnly);
+    });
+
+    for (const fault of applicable) {
+      fault.remaining -= 1;
+    }
+    this.faults = this.faults.filter((fault) => fault.remaining > 0);
+    return applicable;
+  }
+
+  /**
+   * Applies latency and returns the status fault, if any, for a unary call.
+   */
+  private async unaryFault(
+    method: FakeMethod,
+  ): Promise<Partial<grpc.StatusObject> | null> {
+    const faults = this.takeFaults(method);
+    for (const fault of faults) {
+      if (fault.type === 'latency') {
+        await delay(fault.delayMs);
+      }
+    }
+    const status = faults.find((fault) => fault.type === 'status');
+    return status ? { code: status.code, details: status.details } : null;
+  }
+
+  private async answer(
+    call: grpc.ServerDuplexStream<ClassifyRequest, ClassifyResponse>,
+    request: ClassifyRequest,
+  ): Promise<void> {
+    const faults = this.takeFaults('classify');
+    const find = <T extends FakeFaultKind['type']>(
+      type: T,
+    ): Extract<FakeFaultKind, { type: T }> | undefined =>
+      faults.find(
+        (fault): fault is Extract<FakeFaultKind, { type: T }> =>
+          fault.type === type,
+      );
+
+    const latency = find('latency');
+    if (latency) {
+      await delay(latency.delayMs);
+    }
+    if (call.cancelled || call.writableEnded) {
+      return;
+    }
+
+    const status = find('status');
+    if (status) {
+      call.emit('error', { code: status.code, details: status.details });
+      return;
+    }
+
+    const globalError = find('globalError');
+    if (globalError) {
+      call.write(
+        ClassifyResponse.fromPartial({ globalError: globalError.error }),
+      );
+      return;
+    }
+
+    let outputs = request.inputs.map((input) =>
+      this.outputFor(input, request.deploymentId),
+    );
+
+    const reset = find('reset');
+    if (reset) {
+      const sent = outputs.slice(0, reset.afterOutputs ?? 0);
+      if (sent.length > 0) {
+        call.write(ClassifyResponse.fromPartial({ outputs: sent }));
+      }
+      call.emit('error', {
+        code: grpc.status.INTERNAL,
+        details: 'Stream reset by FakeAthenaServer',
+      });
+      return;
+    }
+
+    const partial = find('partialOutputs');
+    if (partial) {
+      outputs = outputs.slice(0, partial.count);
+    }
+
+    if (find('outOfOrder')) {
+      for (const output of outputs.reverse()) {
+        call.write(ClassifyResponse.fromPartial({ outputs: [output] }));
+      }
+      return;
+    }
+
+    if (outputs.length > 0) {
+      call.write(ClassifyResponse.fromPartial({ outputs }));
+    }
+  }
+
+  private implementation(): ClassifierServiceServer {
+    return {
+      classify: (call): void => {
+        const unauthenticated = this.authenticate(call.metadata);
+        if (unauthenticated) {
+          call.emit('error', unauthenticated);
+          return;
+        }
+
+        call.on('data', (request: ClassifyRequest) => {
+          this.requests.push(request);
+          if (request.inputs.length === 0) {
+            return;
+          }
+          this.record(
+            request.inputs.map((input) => ({
+              method: 'classify',
+              deploymentId: request.deploymentId,
+              input,
+            })),
+          );
+          void this.answer(call, request);
+        });
+        call.on('end', () => call.end());
+      },
+      classifySingle: async (call, callback): Promise<void> => {
+        const unauthenticated = this.authenticate(call.metadata);
+        if (unauthenticated) {
+          callback(unauthenticated, null);
+          return;
+        }
+        this.record([{ method: 'classifySingle', input: call.request }]);
+
+        const status = await this.unaryFault('classifySingle');
+        if (status) {
+          callback(status, null);
+          return;
+        }
+        callback(null, this.outputFor(call.request));
+      },
+      listDeployments: async (call, callback): Promise<void> => {
+        const unauthenticated = this.authenticate(call.metadata);
+        if (unauthenticated) {
+          callback(unauthenticated, null);
+          return;
+        }
+
+        const status = await this.unaryFault('listDeployments');
+        if (status) {
+          callback(status, null);
+          return;
+        }
+        callback(
+          null,
+          ListDeploymentsResponse.fromPartial({
+            deployments: this.deployments,
+          }),
+        );
+      },
+    };
+  }
+}
@@ -0,0 +1,460 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import {
+  constants,
+  createHmac,
+  createPublicKey,
+  KeyObject,
+  randomUUID,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+
+/**
+ * Options for the fake OIDC issuer.
+ * @property clients Client secrets accepted by the token endpoint, keyed by
+ * client ID (default { 'test-client-id': 'test-client-secret' }). Also used to
+ * verify client_secret_jwt assertions.
+ * @property clientKeys Public keys accepted for private_key_jwt assertions,
+ * keyed by client ID: KeyObjects, PEM strings or JWKs. A private key may be
+ * given, and its public half is used.
+ * @property tokenLifetime Lifetime (seconds) of issued access tokens (default 3600).
+ */
+export type FakeOidcIssuerOptions = {
+  clients?: Record<string, string>;
+  clientKeys?: Record<string, KeyObject | string | JsonWebKey>;
+  tokenLifetime?: number;
+};
+
+/**
+ * How a client authenticated to the fake issuer's token endpoint.
+ */
+export type FakeClientAuthentication =
+  | 'client_secret_basic'
+  | 'client_secret_post'
+  | 'client_secret_jwt'
+  | 'private_key_jwt';
+
+/**
+ * An access token issued by the fake issuer.
+ * @property accessToken The encoded token.
+ * @property clientId The client the token was issued to.
+ * @property clientAuthentication How the client authenticated.
+ * @property keyId The key ID in the client assertion header, if any.
+ * @property audience The audience requested, if any.
+ * @property scope The scope requested, if any.
+ * @property expiresAt When the token expires.
+ */
+export type FakeIssuedToken = {
+  accessToken: string;
+  clientId: string;
+  clientAuthentication: FakeClientAuthentication;
+  keyId?: string | undefined;
+  audience?: string | undefined;
+  scope?: string | undefined;
+  expiresAt: Date;
+};
+
+export const defaultFakeClientId = 'test-client-id';
+export const defaultFakeClientSecret = 'test-client-secret';
+
+const tokenPath = '/oauth/token';
+
+const jwtBearerAssertion =
+  'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/** The authenticated client, or why authentication failed. */
+type ClientAuthenticationResult =
+  | {
+      clientId: string;
+      method: FakeClientAuthentication;
+      keyId?: string | undefined;
+    }
+  | { error: string };
+
+/**
+ * In-process OIDC issuer serving discovery metadata and client-credentials
+ * tokens over plain HTTP on a local port. Issued tokens are unsigned JWTs
+ * that the fake Athena server can verify with verify().
+ *
+ * Point the SDK at it with `issuerUrl: issuer.issuerUrl` and
+ * `allowInsecureRequests: true` in the authentication options.
+ */
+export class FakeOidcIssuer {
+  private server: Server | null = null;
+  private port = 0;
+  private clients: Record<string, string>;
+  private clientKeys: Record<string, KeyObject>;
+  private assertionIds = new Set<string>();
+  private tokenLifetime: number;
+  private tokens = new Map<string, FakeIssuedToken>();
+
+  /**
+   * Creates a new FakeOidcIssuer. Call start() before use.
+   * @param options The accepted clients and token lifetime.
+   */
+  constructor(options: FakeOidcIssuerOptions = {}) {
+    this.clients = options.clients ?? {
+      [defaultFakeClientId]: defaultFakeClientSecret,
+    };
+    this.clientKeys = Object.fromEntries(
+      Object.entries(options.clientKeys ?? {}).map(([clientId, key]) => [
+        clientId,
+        toPublicKey(key),
+      ]),
+    );
+    this.tokenLifetime = options.tokenLifetime ?? 3600;
+  }
+
+  /**
+   * The issuer URL to configure the SDK with.
+   * @throws Error if the issuer has not been started.
+   */
+  public get issuerUrl(): string {
+    if (!this.server) {
+      throw new Error('FakeOidcIssuer has not been started');
+    }
+    return `http://127.0.0.1:${this.port}/`;
+  }
+
+  /**
+   * Tokens issued so far, in the order issued.
+   */
+  public get issuedTokens(): FakeIssuedToken[] {
+    return [...this.tokens.values()];
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   * @param port The port to listen on (default a free port).
+   * @returns Promise resolving to the issuer URL.
+   */
+  public async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    return this.issuerUrl;
+  }
+
+  /**
+   * Stops the issuer and closes open connections.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return;
+    }
+
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Returns whether a token was issued by this issuer and has not expired.
+   * @param accessToken The encoded access token.
+   */
+  public verify(accessToken: string): boolean {
+    const token = this.tokens.get(accessToken);
+    return token !== undefined && token.expiresAt > new Date();
+  }
+
+  /**
+   * Expires every token issued so far, e.g. to test token refresh.
+   */
+  public expireTokens(): void {
+    for (const token of this.tokens.values()) {
+      token.expiresAt = new Date(0);
+    }
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const { pathname } = new URL(req.url ?? '/', 'http://127.0.0.1');
+
+    if (
+      req.method === 'GET' &&
+      pathname === '/.well-known/openid-configuration'
+    ) {
+      this.send(res, 200, {
+        issuer: this.issuerUrl,
+        token_endpoint: new URL(tokenPath, this.issuerUrl).href,
+        grant_types_supported: ['client_credentials'],
+        token_endpoint_auth_methods_supported: [
+          'client_secret_basic',
+          'client_secret_post',
+          'client_secret_jwt',
+          'private_key_jwt',
+        ],
+        token_endpoint_auth_signing_alg_values_supported: [
+          'HS256',
+          ...Object.keys(signatureAlgorithms),
+        ],
+        response_types_supported: ['token'],
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === tokenPath) {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => (body += chunk));
+      req.on('end', () => this.issueToken(req, res, new URLSearchParams(body)));
+      return;
+    }
+
+    this.send(res, 404, { error: 'not_found' });
+  }
+
+  private issueToken(
+    req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+  ): void {
+    const client = this.authenticateClient(req, params);
+    if ('error' in client) {
+      this.send(res, 401, {
+        error: 'invalid_client',
+        error_description: client.error,
+      });
+      return;
+    }
+    const { clientId } = client;
+
+    if (params.get('grant_type') !== 'client_credentials') {
+      this.send(res, 400, { error: 'unsupported_grant_type' });
+      return;
+    }
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const audience = params.get('audience') ?? undefined;
+    const scope = params.get('scope') ?? undefined;
+    const accessToken = encodeUnsignedJwt({
+      iss: this.issuerUrl,
+      sub: clientId,
+      aud: audience,
+      scope,
+      iat: issuedAt,
+      exp: issuedAt + this.tokenLifetime,
+      jti: randomUUID(),
+    });
+
+    this.tokens.set(accessToken, {
+      accessToken,
+      clientId,
+      clientAuthentication: client.method,
+      keyId: client.keyId,
+      audience,
+      scope,
+      expiresAt: new Date((issuedAt + this.tokenLifetime) * 1000),
+    });
+
+    this.send(res, 200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenLifetime,
+      ...(scope ? { scope } : {}),
+    });
+  }
+
+  private authenticateClient(
+    req: IncomingMessage,
+    params: URLSearchParams,
+  ): ClientAuthenticationResult {
+    const assertion = params.get('client_assertion');
+    if (
+      params.get('client_assertion_type') === jwtBearerAssertion &&
+      assertion
+    ) {
+      return this.verifyClientAssertion(assertion, params.get('client_id'));
+    }
+
+    const [clientId, clientSecret] = readClientCredentials(req, params);
+    if (
+      !clientId ||
+      clientSecret === undefined ||
+      this.clients[clientId] !== clientSecret
+    ) {
+      return { error: 'Unknown client or wrong secret' };
+    }
+    return {
+      clientId,
+      method: req.headers.authorization?.startsWith('Basic ')
+        ? 'client_secret_basic'
+        : 'client_secret_post',
+    };
+  }
+
+  /**
+   * Verifies a client_secret_jwt or private_key_jwt assertion per RFC 7523:
+   * signed by the client, issued by and for it, addressed to this issuer,
+   * unexpired and not replayed.
+   */
+  private verifyClientAssertion(
+    assertion: string,
+    clientIdParam: string | null,
+  ): ClientAuthenticationResult {
+    const [encodedHeader, encodedPayload, encodedSignature] =
+      assertion.split('.');
+    let header: { alg?: string; kid?: string };
+    let payload: {
+      iss?: string;
+      sub?: string;
+      aud?: string | string[];
+      exp?: number;
+      jti?: string;
+    };
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    } catch {
+      return { error: 'Malformed client assertion' };
+    }
+
+    const clientId = payload.iss;
+    if (!clientId || payload.sub !== clientId) {
+      return { error: 'Client assertion iss and sub must be the client ID' };
+    }
+    if (clientIdParam !== null && clientIdParam !== clientId) {
+      return { error: 'Client assertion does not match client_id' };
+    }
+    const audiences = [payload.aud ?? []].flat();
+    if (
+      !audiences.includes(this.issuerUrl) &&
+      !audiences.includes(new URL(tokenPath, this.issuerUrl).href)
+    ) {
+      return { error: 'Client assertion audience is not this issuer' };
+    }
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) {
+      return { error: 'Client assertion has expired' };
+    }
+    if (!payload.jti || this.assertionIds.has(payload.jti)) {
+      return { error: 'Client assertion jti is missing or replayed' };
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature ?? '', 'base64url');
+    let method: FakeClientAuthentication;
+    if (header.alg === 'HS256') {
+      const secret = this.clients[clientId];
+      const expected = secret
+        ? createHmac('sha256', secret).update(data).digest()
+        : undefined;
+      if (
+        !expected ||
+        expected.length !== signature.length ||
+        !timingSafeEqual(expected, signature)
+      ) {
+        return { error: 'Invalid client_secret_jwt signature' };
+      }
+      method = 'client_secret_jwt';
+    } else {
+      const key = this.clientKeys[clientId];
+      const verifier = header.alg ? signatureAlgorithms[header.alg] : undefined;
+      if (!key || !verifier || !verifier(data, key, signature)) {
+        return { error: 'Invalid private_key_jwt signature' };
+      }
+      method = 'private_key_jwt';
+    }
+
+    this.assertionIds.add(payload.jti);
+    return { clientId, method, keyId: header.kid };
+  }
+
+  private send(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, {
+      'content-type': 'application/json',
+      'cache-control': 'no-store',
+    });
+    res.end(JSON.stringify(body));
+  }
+}
+
+function readClientCredentials(
+  req: IncomingMessage,
+  params: URLSearchParams,
+): [string | undefined, string | undefined] {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    // client_secret_basic form-encodes both parts before joining them.
+    const formDecode = (value: string): string =>
+      decodeURIComponent(value.replace(/\+/g, ' '));
+    return [
+      formDecode(decoded.slice(0, separator)),
+      formDecode(decoded.slice(separator + 1)),
+    ];
+  }
+
+  return [
+    params.get('client_id') ?? undefined,
+    params.get('client_secret') ?? undefined,
+  ];
+}
+
+function toPublicKey(key: KeyObject | string | JsonWebKey): KeyObject {
+  if (key instanceof KeyObject) {
+    return key.type === 'public'
+      ? key
+      : createPublicKey({ key: key.export({ format: 'jwk' }), format: 'jwk' });
+  }
+  return typeof key === 'string'
+    ? createPublicKey(key)
+    : createPublicKey({ key, format: 'jwk' });
+}
+
+type SignatureVerifier = (
+  data: Buffer,
+  key: KeyObject,
+  signature: Buffer,
+) => boolean;
+
+const rsaPss =
+  (hash: string): SignatureVerifier =>
+  (data, key, signature) =>
+    verify(
+      hash,
+      data,
+      {
+        key,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      signature,
+    );
+
+const ecdsa =
+  (hash: string): SignatureVerifier =>
+  (data, key, signature) =>
+    verify(hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+
+/** Verifiers for the JWS algorithms accepted in private_key_jwt assertions. */
+const signatureAlgorithms: Record<string, SignatureVerifier> = {
+  RS256: (data, key, signature) => verify('sha256', data, key, signature),
+  RS384: (data, key, signature) => verify('sha384', data, key, signature),
+  RS512: (data, key, signature) => verify('sha512', data, key, signature),
+  PS256: rsaPss('sha256'),
+  PS384: rsaPss('sha384'),
+  PS512: rsaPss('sha512'),
+  ES256: ecdsa('sha256'),
+  ES384: ecdsa('sha384'),
+  ES512: ecdsa('sha512'),
+  Ed25519: (data, key, signature) => verify(null, data, key, signature),
+  EdDSA: (data, key, signature) => verify(null, data, key, signature),
+};
+
+function encodeUnsignedJwt(payload: object): string {
+  const encode = (value: object): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.`;
+}
@@ -0,0 +1,17 @@
+export {
+  FakeAthenaServer,
+  type FakeAthenaServerOptions,
+  type FakeFault,
+  type FakeFaultKind,
+  type FakeMethod,
+  type FakeOutput,
+  type FakeReceivedInput,
+} from './fakeAthenaServer.js';
+export {
+  FakeOidcIssuer,
+  type FakeOidcIssuerOptions,
+  type FakeIssuedToken,
+  type FakeClientAuthentication,
+  defaultFakeClientId,
+  defaultFakeClientSecret,
+} from './fakeOidcIssuer.js';
@@ -0,0 +1,317 @@
+import { createHash, randomUUID } from 'crypto';
+import { join } from 'path';
+import { mkdir, open, readFile, rename, stat, unlink } from 'fs/promises';
+import { delay } from './backoff.js';
+import { AthenaAuthError } from './errors.js';
+import { type Logger, silentLogger } from './logger.js';
+import type { AccessToken } from './tokenProvider.js';
+
+/**
+ * An access token held in a token cache.
+ * @property expiresAt When the token expires.
+ * @property acquiredAt When the token was issued, from which its lifetime is
+ * worked out.
+ */
+export type CachedToken = AccessToken & {
+  expiresAt: Date;
+  acquiredAt: Date;
+};
+
+/**
+ * Cache of access tokens shared between AuthenticationManagers, so that SDK
+ * instances with the same credentials reuse one token instead of each
+ * fetching their own. Pass it as the `tokenCache` authentication option.
+ *
+ * Refresh tokens are never cached.
+ */
+export type TokenCache = {
+  /**
+   * Returns the cached token for a key, if there is one. It may have expired.
+   * @param key The cache key, from tokenCacheKey().
+   */
+  get(key: string): Promise<CachedToken | undefined>;
+  /**
+   * Stores a token, replacing any cached for the key.
+   * @param key The cache key, from tokenCacheKey().
+   * @param token The token.
+   */
+  set(key: string, token: CachedToken): Promise<void>;
+  /**
+   * Runs a function while holding an exclusive lock on a key, so that only one
+   * holder at a time fetches a token for it.
+   * @param key The cache key, from tokenCacheKey().
+   * @param fn The function to run.
+   * @returns Promise resolving to the function's result.
+   */
+  withLock<T>(key: string, fn: () => Promise<T>): Promise<T>;
+};
+
+/**
+ * What a cached token was issued for.
+ * @property issuerUrl The OIDC issuer URL.
+ * @property clientId The OAuth client ID.
+ * @property audience The audience requested.
+ * @property scope The scope requested, if any.
+ */
+export type TokenCacheKeyOptions = {
+  issuerUrl: string;
+  clientId: string;
+  audience: string;
+  scope?: string | undefined;
+};
+
+/**
+ * Derives the cache key for tokens issued to a client. The key is a hash, so
+ * it is safe to use as a file name and reveals nothing about the client.
+ * @param options The issuer, client ID, audience and scope.
+ * @returns The hex-encoded key.
+ */
+export function tokenCacheKey(options: TokenCacheKeyOptions): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        options.issuerUrl,
+        options.clientId,
+        options.audience,
+        options.scope ?? '',
+      ]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Serializes async functions per key within this process.
+ */
+class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  public async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const tail = new Promise<void>((resolve) => (release = resolve));
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Token cache held in memory, shared by every SDK instance in the process
+ * that is given the same MemoryTokenCache.
+ */
+export class MemoryTokenCache implements TokenCache {
+  private tokens = new Map<string, CachedToken>();
+  private mutex = new KeyedMutex();
+
+  public async get(key: string): Promise<CachedToken | undefined> {
+    return this.tokens.get(key);
+  }
+
+  public async set(key: string, token: CachedToken): Promise<void> {
+    this.tokens.set(key, token);
+  }
+
+  public withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    return this.mutex.run(key, fn);
+  }
+}
+
+/**
+ * Options for the file token cache.
+ * @property lockTimeout Time (ms) to wait for another process to release a
+ * lock before giving up (default 10000).
+ * @property staleLockAge Age (ms) after which a lock is assumed to belong to a
+ * process that died and is removed (default 30000).
+ * @property logger Optional logger for unreadable cache files. Tokens are never logged.
+ */
+export type FileTokenCacheOptions = {
+  lockTimeout?: number | undefined;
+  staleLockAge?: number | undefined;
+  logger?: Logger | undefined;
+};
+
+/** Interval (ms) between attempts to take a held lock. */
+const lockRetryInterval = 50;
+
+type TokenFile = {
+  accessToken: string;
+  tokenType?: string | undefined;
+  expiresAt: string;
+  acquiredAt: string;
+};
+
+/**
+ * Reads a cached token from the contents of its file, which another process
+ * or an older version may have written.
+ * @param stored The parsed file contents.
+ * @throws Error if the file does not hold a token with valid dates.
+ * @returns The cached token.
+ */
+function fromTokenFile(stored: unknown): CachedToken {
+  const { accessToken, tokenType, ...dates } = (stored ?? {}) as Partial<
+    Record<keyof TokenFile, unknown>
+  >;
+  if (typeof accessToken !== 'string' || accessToken === '') {
+    throw new Error('accessToken is missing');
+  }
+  if (tokenType !== undefined && typeof tokenType !== 'string') {
+    throw new Error('tokenType is not a string');
+  }
+  const expiresAt = new Date(dates.expiresAt as string);
+  const acquiredAt = new Date(dates.acquiredAt as string);
+  if (!Number.isFinite(expiresAt.getTime())) {
+    throw new Error('expiresAt is not a valid date');
+  }
+  if (!Number.isFinite(acquiredAt.getTime())) {
+    throw new Error('acquiredAt is not a valid date');
+  }
+  return {
+    accessToken,
+    tokenType: tokenType as string | undefined,
+    expiresAt,
+    acquiredAt,
+  };
+}
+
+/**
+ * Token cache held in files in a directory, shared by every process on the
+ * host that uses the same directory. Each key has its own file, readable only
+ * by the current user, and a lock file taken with an exclusive create so that
+ * only one process at a time fetches a token.
+ */
+export class FileTokenCache implements TokenCache {
+  private mutex = new KeyedMutex();
+  private lockTimeout: number;
+  private staleLockAge: number;
+  private logger: Logger;
+
+  /**
+   * Creates a new FileTokenCache.
+   * @param directory The directory to keep tokens in. Created if missing.
+   * @param options Lock timeouts and logger.
+   */
+  constructor(
+    private readonly directory: string,
+    options: FileTokenCacheOptions = {},
+  ) {
+    this.lockTimeout = options.lockTimeout ?? 10000;
+    this.staleLockAge = options.staleLockAge ?? 30000;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Reads the cached token for a key. Missing or unreadable files count as
+   * no token.
+   */
+  public async get(key: string): Promise<CachedToken | undefined> {
+    const path = this.pathFor(key);
+    let contents: string;
+    try {
+      contents = await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to read cached access token', {
+          path,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return undefined;
+    }
+
+    try {
+      return fromTokenFile(JSON.parse(contents));
+    } catch (err) {
+      this.logger.warn('Ignoring invalid cached access token', {
+        path,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes the token for a key. The file is replaced atomically, so readers
+   * never see a partial write.
+   */
+  public async set(key: string, token: CachedToken): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const path = this.pathFor(key);
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    const stored: TokenFile = {
+      accessToken: token.accessToken,
+      tokenType: token.tokenType,
+      expiresAt: token.expiresAt.toISOString(),
+      acquiredAt: token.acquiredAt.toISOString(),
+    };
+    const file = await open(temporary, 'wx', 0o600);
+    try {
+      await file.writeFile(JSON.stringify(stored));
+    } finally {
+      await file.close();
+    }
+    await rename(temporary, path);
+  }
+
+  /**
+   * Runs a function holding the key's lock file.
+   * @throws AthenaAuthError if the lock is not released within lockTimeout.
+   */
+  public withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    return this.mutex.run(key, async () => {
+      const lockPath = `${this.pathFor(key)}.lock`;
+      await this.lock(lockPath);
+      try {
+        return await fn();
+      } finally {
+        await unlink(lockPath).catch(() => undefined);
+      }
+    });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  private async lock(lockPath: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        const file = await open(lockPath, 'wx', 0o600);
+        await file.writeFile(String(process.pid));
+        await file.close();
+        return;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw err;
+        }
+      }
+
+      const held = await stat(lockPath).catch(() => undefined);
+      if (held && Date.now() - held.mtimeMs > this.staleLockAge) {
+        this.logger.warn('Removing stale token cache lock', {
+          path: lockPath,
+        });
+        await unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new AthenaAuthError(
+          `Timed out waiting for token cache lock ${lockPath}`,
+          { retryable: true },
+        );
+      }
+      await delay(lockRetryInterval);
+    }
+  }
+}
@@ -0,0 +1,321 @@
+import { watch, type FSWatcher } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { jwtDecode, type JwtPayload } from 'jwt-decode';
+import { abortable } from './callOptions.js';
+import { AthenaAuthError } from './errors.js';
+import { type Logger, silentLogger } from './logger.js';
+
+/**
+ * An access token and what is known about it.
+ * @property accessToken The encoded token.
+ * @property tokenType The authorization scheme (default 'Bearer').
+ * @property expiresAt When the token expires, if known.
+ */
+export type AccessToken = {
+  accessToken: string;
+  tokenType?: string | undefined;
+  expiresAt?: Date | undefined;
+};
+
+/**
+ * Source of access tokens for the SDK, accepted by ClassifierSdk in place of
+ * AuthenticationOptions. The OIDC client credentials flow (AuthenticationManager)
+ * is the default provider.
+ */
+export type TokenProvider = {
+  /**
+   * Returns a valid access token, fetching or reloading it if necessary.
+   * @param signal Optional AbortSignal that stops waiting for the token.
+   */
+  getToken(signal?: AbortSignal): Promise<AccessToken>;
+  /**
+   * Returns the current token without fetching one, if there is one.
+   * Used by cheap health checks.
+   */
+  peek?(): AccessToken | undefined;
+  /**
+   * Releases timers and watchers; the provider must still work if used again
+   * afterwards. The SDK does not call this for providers passed to it, since
+   * they may be shared; stop them once every SDK using them is closed.
+   */
+  stop?(): void;
+};
+
+/**
+ * Returns whether a value is a TokenProvider rather than AuthenticationOptions.
+ * @param value The SDK's authentication setting.
+ */
+export function isTokenProvider(value: object): value is TokenProvider {
+  return typeof (value as TokenProvider).getToken === 'function';
+}
+
+/**
+ * Formats a token as an Authorization header value, e.g. "Bearer <token>".
+ * @param token The access token.
+ */
+export function formatAuthorization(token: AccessToken): string {
+  return `${token.tokenType ?? 'Bearer'} ${token.accessToken}`;
+}
+
+/**
+ * Reads the expiry from a JWT's exp claim.
+ * @param accessToken The encoded token.
+ * @returns The expiry, or undefined for opaque tokens and JWTs without exp.
+ */
+export function jwtExpiry(accessToken: string): Date | undefined {
+  let decoded: JwtPayload | undefined;
+  try {
+    decoded = jwtDecode(accessToken);
+  } catch {
+    // Opaque (non-JWT) access token.
+  }
+  return decoded?.exp ? new Date(decoded.exp * 1000) : undefined;
+}
+
+function toAccessToken(token: string | AccessToken): AccessToken {
+  return typeof token === 'string'
+    ? { accessToken: token, expiresAt: jwtExpiry(token) }
+    : token;
+}
+
+/**
+ * Provides the same token on every call, e.g. one injected by a sidecar at
+ * startup.
+ */
+export class StaticTokenProvider implements TokenProvider {
+  private token: AccessToken;
+
+  /**
+   * Creates a new StaticTokenProvider.
+   * @param token The encoded token, or the token with its type and expiry.
+   * A plain JWT's expiry is read from its exp claim.
+   */
+  constructor(token: string | AccessToken) {
+    this.token = toAccessToken(token);
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    return this.token;
+  }
+
+  public peek(): AccessToken {
+    return this.token;
+  }
+}
+
+/**
+ * Options for the callback token provider.
+ * @property refreshMargin Time (ms) before a token's expiry at which the
+ * callback is called again (default 60000).
+ */
+export type CallbackTokenProviderOptions = {
+  refreshMargin?: number | undefined;
+};
+
+/**
+ * Provides tokens from an async callback, e.g. a call to an internal token
+ * broker. Tokens with a known expiry are reused until within refreshMargin of
+ * it; tokens without one are fetched on every call. Concurrent callers share
+ * a single callback invocation.
+ */
+export class CallbackTokenProvider implements TokenProvider {
+  private token?: AccessToken | undefined;
+  private fetching: Promise<AccessToken> | null = null;
+  private refreshMargin: number;
+
+  /**
+   * Creates a new CallbackTokenProvider.
+   * @param callback Fetches a token: the encoded token, or the token with
+   * its type and expiry. A plain JWT's expiry is read from its exp claim.
+   * @param options When to call the callback again.
+   */
+  constructor(
+    private readonly callback: () => Promise<string | AccessToken>,
+    options: CallbackTokenProviderOptions = {},
+  ) {
+    this.refreshMargin = options.refreshMargin ?? 60000;
+  }
+
+  public async getToken(signal?: AbortSignal): Promise<AccessToken> {
+    const expiresAt = this.token?.expiresAt;
+    if (
+      this.token &&
+      expiresAt &&
+      Date.now() < expiresAt.getTime() - this.refreshMargin
+    ) {
+      return this.token;
+    }
+
+    this.fetching ??= this.callback()
+      .then((token) => {
+        this.token = toAccessToken(token);
+        return this.token;
+      })
+      .finally(() => {
+        this.fetching = null;
+      });
+    return abortable(this.fetching, signal);
+  }
+
+  public peek(): AccessToken | undefined {
+    return this.token;
+  }
+}
+
+/**
+ * Options for the file token provider.
+ * @property tokenType The authorization scheme (default 'Bearer').
+ * @property logger Optional logger for reload failures. Tokens are never logged.
+ */
+export type FileTokenProviderOptions = {
+  tokenType?: string | undefined;
+  logger?: Logger | undefined;
+};
+
+/**
+ * Provides a token read from a file, e.g. one mounted and rotated by a secret
+ * manager. The file is read on first use and re-read whenever its directory
+ * changes, which also catches rotation by symlink swap. If the directory
+ * cannot be watched, the file is re-read by every getToken() instead; if
+ * watching fails later, it is re-read and watched again by the next one.
+ */
+export class FileTokenProvider implements TokenProvider {
+  private token?: AccessToken | undefined;
+  private loading: Promise<AccessToken> | null = null;
+  private watcher: FSWatcher | null = null;
+  private watchUnavailable = false;
+  private logger: Logger;
+
+  /**
+   * Creates a new FileTokenProvider.
+   * @param path The file holding the encoded token. Surrounding whitespace is ignored.
+   * @param options The token type and logger.
+   */
+  constructor(
+    private readonly path: string,
+    private readonly options: FileTokenProviderOptions = {},
+  ) {
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Returns the token last read from the file, reading it on first use and
+   * whenever the file was not being watched. If re-reading fails, the
+   * current token is kept.
+   * @throws AthenaAuthError if the file cannot be read or is empty and no
+   * token has been read from it yet.
+   */
+  public async getToken(signal?: AbortSignal): Promise<AccessToken> {
+    const watched = this.watcher !== null;
+    this.startWatching();
+    const current = this.token;
+    if (current && watched) {
+      return current;
+    }
+    this.loading ??= this.load().finally(() => {
+      this.loading = null;
+    });
+    return abortable(
+      current
+        ? this.loading.catch((err) => {
+            this.warnReloadFailed(err);
+            return current;
+          })
+        : this.loading,
+      signal,
+    );
+  }
+
+  public peek(): AccessToken | undefined {
+    return this.token;
+  }
+
+  /**
+   * Stops watching the file. It is watched again on the next getToken().
+   */
+  public stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.watchUnavailable = false;
+  }
+
+  private async load(): Promise<AccessToken> {
+    let contents: string;
+    try {
+      contents = (await readFile(this.path, 'utf8')).trim();
+    } catch (err) {
+      throw new AthenaAuthError(
+        `Failed to read access token from ${this.path}`,
+        {
+          cause: err,
+        },
+      );
+    }
+    if (!contents) {
+      throw new AthenaAuthError(`Access token file ${this.path} is empty`);
+    }
+
+    if (contents !== this.token?.accessToken) {
+      this.token = {
+        accessToken: contents,
+        tokenType: this.options.tokenType,
+        expiresAt: jwtExpiry(contents),
+      };
+      this.logger.debug('Loaded access token from file', {
+        path: this.path,
+        expiresAt: this.token.expiresAt?.toISOString(),
+      });
+    }
+    return this.token;
+  }
+
+  private warnReloadFailed(err: unknown): void {
+    this.logger.warn('Failed to reload access token, keeping the current one', {
+      path: this.path,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  private startWatching(): void {
+    if (this.watcher || this.watchUnavailable) {
+      return;
+    }
+
+    const file = basename(this.path);
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dirname(this.path), (_event, filename) => {
+        if (filename && filename !== file && !filename.startsWith('..')) {
+          return;
+        }
+        this.load().catch((err) => this.warnReloadFailed(err));
+      });
+    } catch (err) {
+      this.watchUnavailable = true;
+      this.logger.warn(
+        'Cannot watch access token file, re-reading it on every use',
+        {
+          path: this.path,
+          error: err instanceof Error ? err.message : String(err),
+        },
+      );
+      return;
+    }
+    watcher.on('error', (err) => {
+      this.logger.warn(
+        'Stopped watching access token file, re-reading it on next use',
+        {
+          path: this.path,
+          error: err.message,
+        },
+      );
+      watcher.close();
+      if (this.watcher === watcher) {
+        this.watcher = null;
+      }
+    });
+    watcher.unref();
+    this.watcher = watcher;
+  }
+}